@@ -2,15 +2,31 @@ import chalk from "chalk";
 import ora from "ora";
 import type { Command } from "commander";
 import { verifyAuth } from "../services/auth.js";
-import { collectServiceHealth } from "../services/metrics.js";
+import { buildRouteFilters, collectServiceHealth } from "../services/metrics.js";
 import { analyzeWithClaude, buildRawReport } from "../services/analyzer.js";
-import { parsePeriod } from "../utils/time.js";
+import { parseComparePeriod, parseDurationMs, parsePeriod } from "../utils/time.js";
 import { fetchProject } from "../services/railway-client.js";
+import { describeError } from "../services/errors.js";
+import { parseCorrelationKeys } from "../services/tracing.js";
+import { getConfig } from "../utils/config.js";
+import { createRedactor, describeRedactions } from "../services/redaction.js";
+import { comparePeriods } from "../services/comparison.js";
+import { computeHealthScore } from "../services/health-score.js";
+import { collectSloReports, slosForService } from "../services/slo.js";
+import type { ServiceHealthReport } from "../types/railway.js";
 
 interface AnalyzeOptions {
   period: string;
   lines?: string;
   filter?: string;
+  path?: string[];
+  method?: string;
+  correlationKey?: string;
+  detector?: string;
+  compare?: string;
+  deployWindow?: string;
+  redact: boolean;
+  showRedactions?: boolean;
   raw?: boolean;
   json?: boolean;
   output?: string;
@@ -28,7 +44,27 @@ export function registerAnalyzeCommand(program: Command): void {
       "1h"
     )
     .option("-n, --lines <count>", "Number of log lines to fetch", "500")
-    .option("-f, --filter <query>", "Log filter query (Railway filter syntax)")
+    .option("-f, --filter <query>", 'Log query, e.g. "level:error @path:/api/*"')
+    .option("--path <paths...>", "Add a per-route HTTP breakdown for these paths")
+    .option("--method <method>", "HTTP method for --path routes without their own method")
+    .option(
+      "--correlation-key <keys>",
+      "Comma-separated log attributes that identify a request (default: requestId, traceId, x-request-id, ...)"
+    )
+    .option(
+      "--detector <spec>",
+      'Anomaly detector per signal: stddev, mad, ewma, cusum or threshold, e.g. "ewma,p99=threshold:800" (default: mad)'
+    )
+    .option(
+      "--compare <baseline>",
+      "Compare with a baseline period: previous, a shift such as 1d or 1w, or an ISO range <start>/<end>"
+    )
+    .option(
+      "--deploy-window <duration>",
+      "Time compared before and after each deployment's cutover (default: 15m, or 5 metric samples on long periods)"
+    )
+    .option("--no-redact", "Send and write log messages without redacting secrets and personal data")
+    .option("--show-redactions", "Print a summary of what was redacted")
     .option("--raw", "Show raw metrics without Claude analysis")
     .option("--json", "Output the raw health report as JSON")
     .option("-o, --output <file>", "Write the report to a file")
@@ -86,24 +122,74 @@ async function runAnalysis(
       chalk.dim(`\nAnalysis period: ${start} to ${end} (${options.period})`)
     );
 
+    // Resolve the baseline and deploy window before fetching anything so a typo fails fast
+    const baselineRange = options.compare ? parseComparePeriod(options.compare, { start, end }) : undefined;
+    const deployWindowMs = options.deployWindow ? parseDurationMs(options.deployWindow) : undefined;
+
+    const redactor = options.redact ? createRedactor(getConfig().redaction) : undefined;
+    const collect = (startDate: string, endDate: string) =>
+      collectServiceHealth({
+        projectId,
+        environmentId,
+        environmentName,
+        serviceId,
+        serviceName,
+        startDate,
+        endDate,
+        logLines: options.lines ? parseInt(options.lines, 10) : 500,
+        logFilter: options.filter,
+        routes: options.path ? buildRouteFilters(options.path, options.method) : undefined,
+        correlationKeys: parseCorrelationKeys(options.correlationKey),
+        logMetrics: getConfig().logMetrics,
+        redactor,
+        anomalyDetectors: options.detector,
+        deployWindowMs,
+      });
+
+    // The baseline goes first, so the redaction summary on the report covers both periods
+    let baseline: ServiceHealthReport | undefined;
+    if (baselineRange) {
+      spinner.start(`Fetching baseline period (${baselineRange.start} to ${baselineRange.end})...`);
+      baseline = await collect(baselineRange.start, baselineRange.end);
+      spinner.succeed(
+        `Collected baseline: ${baseline.metrics.cpu.dataPoints} metric data points, ${baseline.logs.length} log entries`
+      );
+    }
+
     spinner.start("Fetching metrics (CPU, memory, network, HTTP)...");
-    const report = await collectServiceHealth({
-      projectId,
-      environmentId,
-      environmentName,
-      serviceId,
-      serviceName,
-      startDate: start,
-      endDate: end,
-      logLines: options.lines ? parseInt(options.lines, 10) : 500,
-      logFilter: options.filter,
-    });
+    const report = await collect(start, end);
+    if (baseline && options.compare) {
+      report.comparison = comparePeriods(options.compare, report, baseline);
+    }
+    report.healthScore = computeHealthScore(report, getConfig().healthScore);
     const httpInfo = report.metrics.http
       ? `, ${report.metrics.http.totalRequests} HTTP requests`
       : "";
     spinner.succeed(
       `Collected ${report.metrics.cpu.dataPoints} metric data points, ${report.deployments.length} deployments, ${report.logs.length} log entries${httpInfo}`
     );
+    for (const warning of report.warnings ?? []) {
+      spinner.warn(chalk.yellow(warning));
+    }
+    for (const warning of report.comparison?.warnings ?? []) {
+      spinner.warn(chalk.yellow(`Baseline: ${warning}`));
+    }
+
+    // SLOs cover their own windows ending now; without them the analysis still stands
+    const slos = slosForService(getConfig().slos, serviceId);
+    if (slos.length > 0) {
+      spinner.start(`Evaluating ${slos.length} SLO(s)...`);
+      try {
+        report.slos = await collectSloReports({ environmentId, serviceId, slos, endDate: end });
+        const failing = report.slos.filter((r) => r.status === "at-risk" || r.status === "breached").length;
+        spinner.succeed(`Evaluated ${slos.length} SLO(s)${failing > 0 ? `, ${failing} at risk or breached` : ""}`);
+      } catch (err) {
+        spinner.warn(chalk.yellow(`Could not evaluate SLOs: ${describeError(err).message}`));
+      }
+    }
+    if (options.showRedactions) {
+      spinner.info(report.redactions ? describeRedactions(report.redactions) : "Redaction disabled (--no-redact)");
+    }
 
     if (options.json) {
       const jsonOutput = JSON.stringify(report, null, 2);
@@ -153,8 +239,9 @@ async function runAnalysis(
     }
   } catch (err) {
     spinner.fail("Error");
-    const message = err instanceof Error ? err.message : String(err);
+    const { message, hint } = describeError(err);
     console.error(chalk.red(`\n${message}`));
+    if (hint) console.error(chalk.yellow(hint));
     process.exit(1);
   }
 }
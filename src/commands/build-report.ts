@@ -0,0 +1,139 @@
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import {
+  collectBuildReport,
+  describeBuildFailure,
+  describeStageComparison,
+  formatBuildDuration,
+} from "../services/build-diagnostics.js";
+import { createRedactor, describeRedactions } from "../services/redaction.js";
+import { describeError } from "../services/errors.js";
+import { getConfig } from "../utils/config.js";
+import type { BuildReport } from "../types/railway.js";
+
+interface BuildReportOptions {
+  lines: string;
+  json?: boolean;
+  redact: boolean;
+  showRedactions?: boolean;
+}
+
+export function registerBuildReportCommand(program: Command): void {
+  program
+    .command("build-report")
+    .description("Split a deployment's build logs into stages, find the fatal error and compare with the last good build")
+    .argument("<deploymentId>", "Deployment whose build to diagnose")
+    .option("-n, --lines <count>", "Build log lines to fetch per deployment", "5000")
+    .option("--json", "Output as JSON")
+    .option("--no-redact", "Show build logs without redacting secrets and personal data")
+    .option("--show-redactions", "Print a summary of what was redacted")
+    .action(async (deploymentId: string, options: BuildReportOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const projectId: string = globals.projectId;
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+
+      try {
+        spinner.start("Verifying authentication...");
+        await verifyAuth();
+        spinner.succeed("Authenticated");
+
+        if (!serviceId) {
+          spinner.fail("No service specified");
+          console.log(chalk.yellow("\nProvide --service-id <id> to find the service's previous builds."));
+          process.exit(1);
+        }
+
+        const redactor = options.redact ? createRedactor(getConfig().redaction) : undefined;
+
+        spinner.start(`Fetching build logs for ${deploymentId.substring(0, 12)}...`);
+        const report = await collectBuildReport({
+          projectId,
+          environmentId,
+          serviceId,
+          deploymentId,
+          lines: parseInt(options.lines, 10),
+          redactor,
+        });
+        spinner.succeed(`Split build into ${report.stages.length} stages`);
+
+        if (options.showRedactions) {
+          spinner.info(redactor ? describeRedactions(redactor.summary()) : "Redaction disabled (--no-redact)");
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+
+        displayBuildReport(report);
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(1);
+      }
+    });
+}
+
+function displayBuildReport(report: BuildReport): void {
+  const status = report.status ?? "UNKNOWN";
+  const color = status === "FAILED" || status === "CRASHED" ? chalk.red : chalk.green;
+
+  console.log(chalk.bold(`\nBuild ${report.deploymentId}`));
+  console.log(`  Status:  ${color(status)}`);
+  console.log(`  Builder: ${report.builder}`);
+  console.log(`  Total:   ${formatBuildDuration(report.totalDurationMs)}`);
+  if (report.baseline) {
+    console.log(
+      `  Last successful build: ${report.baseline.deploymentId.substring(0, 12)} ` +
+        `(${formatBuildDuration(report.baseline.totalDurationMs)})`
+    );
+  } else {
+    console.log(chalk.dim("  No earlier successful build to compare with"));
+  }
+
+  if (report.stages.length === 0) {
+    console.log(chalk.yellow("\nNo build log lines were found for this deployment."));
+    return;
+  }
+
+  console.log(chalk.bold("\nStages\n"));
+  const baselineByName = new Map(report.comparison?.map((c) => [c.name, c.baselineMs]));
+  const nameWidth = Math.min(48, Math.max(...report.stages.map((s) => s.name.length)));
+  for (const stage of report.stages) {
+    const name = stage.name.length > nameWidth ? `${stage.name.substring(0, nameWidth - 1)}…` : stage.name;
+    const baselineMs = baselineByName.get(stage.name);
+    const baseline =
+      baselineMs !== undefined ? chalk.dim(` (was ${formatBuildDuration(baselineMs)})`) : "";
+    const line =
+      `  ${name.padEnd(nameWidth)}  ${stage.kind.padEnd(11)} ` +
+      `${formatBuildDuration(stage.durationMs).padStart(7)}${stage.cached ? chalk.dim(" cached") : ""}${baseline}`;
+    console.log(report.failure?.stage === stage.name ? chalk.red(line) : line);
+  }
+
+  // Stages that got noticeably slower than in the last successful build
+  const slower = (report.comparison ?? []).filter(
+    (c) => c.baselineMs !== undefined && c.durationMs - c.baselineMs > 5000 && c.durationMs > c.baselineMs * 1.5
+  );
+  if (slower.length > 0) {
+    console.log(chalk.bold("\nSlower than the last successful build\n"));
+    for (const c of slower) console.log(chalk.yellow(`  ${describeStageComparison(c)}`));
+  }
+
+  if (report.failure) {
+    console.log(chalk.bold("\nFailure\n"));
+    console.log(chalk.red(`  ${describeBuildFailure(report.failure)}`));
+    console.log(chalk.dim(`  at ${report.failure.timestamp}\n`));
+    for (const line of report.failure.context) {
+      console.log(line.includes(report.failure.message) ? chalk.red(`  > ${line}`) : chalk.dim(`    ${line}`));
+    }
+  } else if (report.status === "FAILED") {
+    console.log(chalk.yellow("\nNo fatal error line was recognized in the build logs; the failure may be in a later phase."));
+  }
+  console.log();
+}
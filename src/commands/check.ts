@@ -0,0 +1,143 @@
+import chalk from "chalk";
+import ora from "ora";
+import { writeFileSync } from "fs";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import { collectServiceHealth } from "../services/metrics.js";
+import { fetchProject } from "../services/railway-client.js";
+import { computeHealthScore } from "../services/health-score.js";
+import { collectSloReports, slosForService } from "../services/slo.js";
+import { describeCheckResult, evaluateChecks, formatJUnit, loadCheckRules } from "../services/checks.js";
+import { describeError } from "../services/errors.js";
+import { getConfig } from "../utils/config.js";
+import { parsePeriod } from "../utils/time.js";
+import type { CheckResult } from "../types/railway.js";
+
+interface CheckOptions {
+  rules: string;
+  period: string;
+  lines: string;
+  filter?: string;
+  detector?: string;
+  junit?: string;
+  json?: boolean;
+  failOnWarn?: boolean;
+}
+
+// Exit codes: 0 all rules passed (or warned), 1 a rule failed, 2 the check itself couldn't run
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+export function registerCheckCommand(program: Command): void {
+  program
+    .command("check")
+    .description("Evaluate alert rules against the service's health and exit non-zero when any fail")
+    .requiredOption("-r, --rules <file>", "YAML or JSON rule file")
+    .option("-p, --period <period>", "Time period to check (e.g., 15m, 1h)", "1h")
+    .option("-n, --lines <count>", "Number of log lines to fetch", "500")
+    .option("-f, --filter <query>", 'Log query, e.g. "level:error @path:/api/*"')
+    .option("--detector <spec>", "Anomaly detector per signal, as for analyze (default: mad)")
+    .option("--junit <file>", "Write the results as JUnit XML")
+    .option("--json", "Output the results as JSON")
+    .option("--fail-on-warn", "Exit non-zero on warnings too")
+    .action(async (options: CheckOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const projectId: string = globals.projectId;
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+      const startedAt = Date.now();
+
+      try {
+        // Parse the rules before fetching anything so a typo fails fast
+        const checks = loadCheckRules(options.rules);
+        const { start, end } = parsePeriod(options.period);
+
+        if (!serviceId) {
+          spinner.fail("No service specified");
+          console.error(chalk.yellow("\nProvide --service-id <id> to specify the service."));
+          process.exit(EXIT_ERROR);
+        }
+
+        spinner.start("Verifying authentication...");
+        await verifyAuth();
+        spinner.succeed("Authenticated");
+
+        let serviceName = serviceId;
+        let environmentName = environmentId;
+        try {
+          const { project } = await fetchProject(projectId);
+          serviceName = project.services.edges.find((e) => e.node.id === serviceId)?.node.name ?? serviceName;
+          environmentName = project.environments.edges.find((e) => e.node.id === environmentId)?.node.name ?? environmentName;
+        } catch {
+          // Fall back to IDs if project query fails
+        }
+
+        spinner.start(`Collecting ${options.period} of metrics, logs and deployments for ${serviceName}...`);
+        const report = await collectServiceHealth({
+          projectId,
+          environmentId,
+          environmentName,
+          serviceId,
+          serviceName,
+          startDate: start,
+          endDate: end,
+          logLines: parseInt(options.lines, 10),
+          logFilter: options.filter,
+          logMetrics: getConfig().logMetrics,
+          anomalyDetectors: options.detector,
+        });
+        report.healthScore = computeHealthScore(report, getConfig().healthScore);
+        spinner.succeed(`Collected ${start} to ${end}`);
+        for (const warning of report.warnings ?? []) {
+          spinner.warn(chalk.yellow(warning));
+        }
+
+        // SLOs need weeks of HTTP metrics, so they are only fetched for rules that read them
+        const slos = slosForService(getConfig().slos, serviceId);
+        if (checks.some((c) => c.usesSlos) && slos.length > 0) {
+          spinner.start(`Evaluating ${slos.length} SLO(s)...`);
+          try {
+            report.slos = await collectSloReports({ environmentId, serviceId, slos, endDate: end });
+            spinner.succeed(`Evaluated ${slos.length} SLO(s)`);
+          } catch (err) {
+            spinner.warn(chalk.yellow(`Could not evaluate SLOs: ${describeError(err).message}`));
+          }
+        }
+
+        const results = evaluateChecks(checks, report);
+        if (options.junit) {
+          writeFileSync(options.junit, formatJUnit(results, report, Date.now() - startedAt));
+          spinner.info(`JUnit report written to ${options.junit}`);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify({ service: report.service, period: report.period, results }, null, 2));
+        } else {
+          displayResults(results);
+        }
+
+        const failed = results.some((r) => r.status === "fail" || (options.failOnWarn && r.status === "warn"));
+        if (failed) process.exit(EXIT_FAILED);
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(EXIT_ERROR);
+      }
+    });
+}
+
+function displayResults(results: CheckResult[]): void {
+  console.log(chalk.bold("\nChecks\n"));
+  for (const r of results) {
+    const color = r.status === "fail" ? chalk.red : r.status === "warn" ? chalk.yellow : chalk.green;
+    console.log(color(`  ${describeCheckResult(r)}`));
+  }
+
+  const count = (status: CheckResult["status"]) => results.filter((r) => r.status === status).length;
+  console.log(
+    `\n  ${chalk.green(`${count("pass")} passed`)}, ${chalk.yellow(`${count("warn")} warned`)}, ${chalk.red(`${count("fail")} failed`)}\n`
+  );
+}
@@ -0,0 +1,120 @@
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import { describeSignalDelta } from "../services/comparison.js";
+import { collectDeployDiff, describeDeployDiff } from "../services/deploy-diff.js";
+import { createRedactor, describeRedactions } from "../services/redaction.js";
+import { describeError } from "../services/errors.js";
+import { getConfig } from "../utils/config.js";
+import { parseDurationMs } from "../utils/time.js";
+import type { DeployDiff } from "../types/railway.js";
+
+interface DeployDiffOptions {
+  window: string;
+  lines: string;
+  json?: boolean;
+  redact: boolean;
+  showRedactions?: boolean;
+}
+
+export function registerDeployDiffCommand(program: Command): void {
+  program
+    .command("deploy-diff")
+    .description("Compare latency, errors, CPU and memory before and after a deployment went live")
+    .argument("<deploymentId>", "Deployment to judge")
+    .option("-w, --window <duration>", "Time compared on each side of the cutover (e.g. 15m, 1h)", "15m")
+    .option("-n, --lines <count>", "Deploy log lines to fetch per deployment", "1000")
+    .option("--json", "Output as JSON")
+    .option("--no-redact", "Show log patterns without redacting secrets and personal data")
+    .option("--show-redactions", "Print a summary of what was redacted")
+    .action(async (deploymentId: string, options: DeployDiffOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const projectId: string = globals.projectId;
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+
+      try {
+        const windowMs = parseDurationMs(options.window);
+
+        spinner.start("Verifying authentication...");
+        await verifyAuth();
+        spinner.succeed("Authenticated");
+
+        if (!serviceId) {
+          spinner.fail("No service specified");
+          console.log(chalk.yellow("\nProvide --service-id <id> to find the deployment's cutover."));
+          process.exit(1);
+        }
+
+        const redactor = options.redact ? createRedactor(getConfig().redaction) : undefined;
+
+        spinner.start(`Comparing ${options.window} before and after ${deploymentId.substring(0, 12)}...`);
+        const { diff, warnings } = await collectDeployDiff({
+          projectId,
+          environmentId,
+          serviceId,
+          deploymentId,
+          windowMs,
+          logLines: parseInt(options.lines, 10),
+          redactor,
+        });
+        spinner.succeed(`Compared ${diff.deltas.length} signals`);
+        for (const warning of warnings) {
+          spinner.warn(chalk.yellow(warning));
+        }
+
+        if (options.showRedactions) {
+          spinner.info(redactor ? describeRedactions(redactor.summary()) : "Redaction disabled (--no-redact)");
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(diff, null, 2));
+          return;
+        }
+
+        displayDeployDiff(diff);
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(1);
+      }
+    });
+}
+
+function displayDeployDiff(diff: DeployDiff): void {
+  const color = diff.verdict === "regressed" ? chalk.red : diff.verdict === "improved" ? chalk.green : chalk.white;
+
+  console.log(chalk.bold(`\nDeployment ${diff.deploymentId}`));
+  console.log(`  Verdict:  ${color.bold(diff.verdict.toUpperCase())}`);
+  console.log(`  Cutover:  ${diff.cutover}`);
+  if (diff.previousDeploymentId) {
+    console.log(`  Replaced: ${diff.previousDeploymentId.substring(0, 12)}`);
+  }
+  console.log(chalk.dim(`  Before: ${diff.before.start} → ${diff.before.end}`));
+  console.log(chalk.dim(`  After:  ${diff.after.start} → ${diff.after.end}`));
+
+  console.log(chalk.bold("\nEvidence\n"));
+  for (const line of diff.evidence) {
+    console.log(color(`  ${line}`));
+  }
+
+  console.log(chalk.bold("\nSignals (before → after)\n"));
+  for (const d of diff.deltas) {
+    const line = `  ${describeSignalDelta(d)}`;
+    console.log(d.significant ? line : chalk.dim(line));
+  }
+
+  if (diff.newPatterns.length > 0) {
+    console.log(chalk.bold("\nNew log patterns after the cutover\n"));
+    for (const p of diff.newPatterns) {
+      const errors = (p.severities.error ?? 0) + (p.severities.fatal ?? 0);
+      const line = `  ${String(p.count).padStart(5)}×  ${p.template}`;
+      console.log(errors > 0 ? chalk.red(line) : line);
+    }
+  }
+  console.log(chalk.dim(`\n${describeDeployDiff(diff)}\n`));
+}
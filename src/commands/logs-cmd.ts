@@ -1,9 +1,17 @@
 import chalk from "chalk";
 import ora from "ora";
 import type { Command } from "commander";
-import { verifyAuth, isCliInstalled } from "../services/auth.js";
-import { fetchLogs } from "../services/logs.js";
+import { verifyAuth } from "../services/auth.js";
+import { getLogBackend } from "../services/log-backend.js";
 import { parsePeriod } from "../utils/time.js";
+import { describeError } from "../services/errors.js";
+import { streamLogs } from "../services/log-stream.js";
+import { isReplaying } from "../services/recorder.js";
+import { compileLogFilter, describeLogFilterFallback, parseLogFilter } from "../services/log-query.js";
+import { clusterLogPatterns } from "../services/log-patterns.js";
+import { detectSeverity, isErrorEntry, isWarningEntry, type Severity } from "../services/severity.js";
+import type { LogPattern } from "../types/railway.js";
+import { registerLogsExportCommand } from "./logs-export.js";
 
 interface LogsOptions {
   period: string;
@@ -11,33 +19,41 @@ interface LogsOptions {
   filter?: string;
   build?: boolean;
   json?: boolean;
+  follow?: boolean;
+  deployment?: string;
+  backend: string;
+  patterns?: boolean;
 }
 
 export function registerLogsCommand(program: Command): void {
-  program
+  const logsCommand = program
     .command("logs")
-    .description("Fetch and display logs for a Railway service (requires Railway CLI)")
+    .description("Fetch and display logs for a Railway service")
     .option("-p, --period <period>", "Time period (e.g., 1h, 6h, 24h, 7d)", "1h")
     .option("-n, --lines <count>", "Number of log lines", "100")
-    .option("-f, --filter <query>", "Log filter query (Railway filter syntax)")
+    .option("-f, --filter <query>", 'Log query, e.g. "level:error @status>=500 -healthcheck"')
     .option("-b, --build", "Show build logs instead of deploy logs")
     .option("--json", "Output as JSON")
+    .option("-F, --follow", "Stream new log entries live (no Railway CLI needed)")
+    .option("--deployment <id>", "Only show logs from this deployment")
+    .option("--backend <name>", "Log source: graphql (API token only) or cli (Railway CLI)", "graphql")
+    .option("--patterns", "Group repeated messages into templates with counts")
     .action(async (options: LogsOptions, cmd: Command) => {
       const globals = cmd.optsWithGlobals();
+      const projectId: string = globals.projectId;
       const serviceId: string | undefined = globals.serviceId;
+      const environmentId: string = globals.environmentId;
       const spinner = ora();
 
+      if (options.follow) {
+        await followLogs(options, environmentId, serviceId);
+        return;
+      }
+
       try {
-        if (!isCliInstalled()) {
-          console.error(
-            chalk.red(
-              "The logs command requires the Railway CLI.\n" +
-                "Install: npm install -g @railway/cli\n\n" +
-                "Other commands (analyze, metrics, status) work without the CLI."
-            )
-          );
-          process.exit(1);
-        }
+        const backend = getLogBackend(options.backend);
+        const fallback = options.filter ? parseLogFilter(options.filter).fallback : undefined;
+        if (fallback) spinner.warn(chalk.yellow(describeLogFilterFallback(fallback)));
 
         spinner.start("Verifying authentication...");
         await verifyAuth();
@@ -45,9 +61,12 @@ export function registerLogsCommand(program: Command): void {
 
         const { start, end } = parsePeriod(options.period);
 
-        spinner.start("Fetching logs...");
-        const logs = fetchLogs({
+        spinner.start(`Fetching logs (${backend.name})...`);
+        const { entries: logs } = await backend.fetchLogs({
+          projectId,
+          environmentId,
           serviceId,
+          deploymentId: options.deployment,
           since: start,
           until: end,
           lines: options.lines ? parseInt(options.lines, 10) : 100,
@@ -56,6 +75,16 @@ export function registerLogsCommand(program: Command): void {
         });
         spinner.succeed(`Fetched ${logs.length} log entries`);
 
+        if (options.patterns) {
+          const patterns = clusterLogPatterns(logs);
+          if (options.json) {
+            console.log(JSON.stringify(patterns, null, 2));
+          } else {
+            displayPatterns(patterns, logs.length, options.period);
+          }
+          return;
+        }
+
         if (options.json) {
           console.log(JSON.stringify(logs, null, 2));
           return;
@@ -69,30 +98,134 @@ export function registerLogsCommand(program: Command): void {
         console.log(chalk.bold(`\nLogs (last ${options.period})\n`));
         for (const entry of logs) {
           const ts = chalk.dim(entry.timestamp);
-          const severity = formatSeverity(entry.severity || "info");
+          const severity = formatSeverity(detectSeverity(entry));
           console.log(`${ts} ${severity} ${entry.message}`);
         }
 
-        const errors = logs.filter(
-          (l) => l.severity === "error" || l.severity === "ERROR"
-        ).length;
-        const warnings = logs.filter(
-          (l) => l.severity === "warn" || l.severity === "WARNING"
-        ).length;
+        const errors = logs.filter(isErrorEntry).length;
+        const warnings = logs.filter(isWarningEntry).length;
 
         console.log(chalk.dim(`\n--- ${logs.length} entries | ${errors} errors | ${warnings} warnings ---`));
       } catch (err) {
         spinner.fail("Error");
-        console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
         process.exit(1);
       }
     });
+
+  registerLogsExportCommand(logsCommand);
+}
+
+async function followLogs(
+  options: LogsOptions,
+  environmentId: string,
+  serviceId?: string
+): Promise<void> {
+  const spinner = ora();
+
+  try {
+    if (options.build) {
+      throw new Error("--follow streams deploy logs; it cannot be combined with --build.");
+    }
+    if (isReplaying()) {
+      throw new Error("--follow needs a live connection and cannot be used with --replay.");
+    }
+    if (options.patterns) {
+      throw new Error("--patterns summarizes a fetched period; it cannot be combined with --follow.");
+    }
+
+    const fallback = options.filter ? parseLogFilter(options.filter).fallback : undefined;
+    if (fallback) spinner.warn(chalk.yellow(describeLogFilterFallback(fallback)));
+    const matchesFilter = options.filter ? compileLogFilter(options.filter) : undefined;
+
+    spinner.start("Verifying authentication...");
+    await verifyAuth();
+    spinner.succeed("Authenticated");
+
+    const backfill = options.lines ? parseInt(options.lines, 10) : 100;
+
+    let connected = false;
+    let reconnecting = false;
+    spinner.start("Connecting to log stream...");
+    const stop = await streamLogs(
+      { environmentId, serviceId, deploymentId: options.deployment, backfill },
+      {
+        onEntry: (entry) => {
+          if (matchesFilter && !matchesFilter(entry)) return;
+          if (options.json) {
+            console.log(JSON.stringify(entry));
+            return;
+          }
+          const ts = chalk.dim(entry.timestamp);
+          const severity = formatSeverity(detectSeverity(entry));
+          console.log(`${ts} ${severity} ${entry.message}`);
+        },
+        onStatus: (status) => {
+          if (status === "connected") {
+            if (!connected && !reconnecting) spinner.succeed("Streaming logs (Ctrl+C to stop)");
+            else console.error(chalk.dim("--- reconnected ---"));
+            connected = true;
+            reconnecting = false;
+          } else if (status === "resubscribing") {
+            console.error(chalk.dim("--- stream ended by the server, resubscribing ---"));
+          } else if (!reconnecting) {
+            console.error(chalk.dim("--- connection lost, reconnecting ---"));
+            reconnecting = true;
+          }
+        },
+        onEnd: () => {
+          console.error(chalk.red("Log stream ended by the server and could not be resumed."));
+          process.exit(1);
+        },
+        onError: (err) => {
+          spinner.fail("Log stream error");
+          console.error(chalk.red(describeError(err).message));
+          process.exit(1);
+        },
+      }
+    );
+
+    process.once("SIGINT", () => {
+      stop();
+      process.exit(0);
+    });
+  } catch (err) {
+    spinner.fail("Error");
+    const { message, hint } = describeError(err);
+    console.error(chalk.red(message));
+    if (hint) console.error(chalk.yellow(hint));
+    process.exit(1);
+  }
+}
+
+function displayPatterns(patterns: LogPattern[], total: number, period: string): void {
+  if (patterns.length === 0) {
+    console.log(chalk.yellow("\nNo logs found for the specified period."));
+    return;
+  }
+
+  console.log(chalk.bold(`\nLog patterns (last ${period}): ${patterns.length} patterns from ${total} entries\n`));
+  for (const p of patterns) {
+    const isError = (p.severities.error ?? 0) + (p.severities.fatal ?? 0) > 0;
+    const count = String(p.count).padStart(7);
+    console.log(`${isError ? chalk.red(count) : chalk.cyan(count)}  ${p.template}`);
+    console.log(chalk.dim(`         first ${p.firstSeen}  last ${p.lastSeen}`));
+    if (p.stack) {
+      console.log(chalk.dim(`         ${p.stack.runtime} stack, ${p.stack.frames.length} frames`));
+    } else if (p.sample !== p.template) {
+      console.log(chalk.dim(`         e.g. ${p.sample}`));
+    }
+  }
+  console.log();
 }
 
-function formatSeverity(severity: string): string {
-  const s = severity.toLowerCase();
-  if (s === "error") return chalk.red("[ERROR]");
-  if (s === "warn" || s === "warning") return chalk.yellow("[WARN] ");
-  if (s === "debug") return chalk.gray("[DEBUG]");
+function formatSeverity(severity: Severity): string {
+  if (severity === "fatal") return chalk.bgRed.white("[FATAL]");
+  if (severity === "error") return chalk.red("[ERROR]");
+  if (severity === "warn") return chalk.yellow("[WARN] ");
+  if (severity === "debug") return chalk.gray("[DEBUG]");
+  if (severity === "trace") return chalk.gray("[TRACE]");
   return chalk.blue("[INFO] ");
 }
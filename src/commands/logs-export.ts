@@ -0,0 +1,172 @@
+import { createWriteStream, type WriteStream } from "fs";
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import { getLogBackend } from "../services/log-backend.js";
+import { describeLogFilterFallback, parseLogFilter } from "../services/log-query.js";
+import { createLogExporter, parseLogExportFormat } from "../services/log-export.js";
+import { parseDurationMs, parsePeriod, splitTimeRange } from "../utils/time.js";
+import { describeError } from "../services/errors.js";
+import { createRedactor, describeRedactions } from "../services/redaction.js";
+import { getConfig } from "../utils/config.js";
+
+interface ExportOptions {
+  format: string;
+  output?: string;
+  columns?: string;
+  chunk: string;
+  redact: boolean;
+  showRedactions?: boolean;
+}
+
+// Per-deployment line limit for each chunk when --lines isn't given
+const DEFAULT_CHUNK_LINES = 5000;
+
+/**
+ * Write text and wait for the stream to drain when its buffer is full, so a
+ * long export never queues more than one chunk in memory. Rejects if the
+ * stream errors instead of draining.
+ */
+function writeChunk(out: NodeJS.WritableStream, text: string): Promise<void> {
+  if (text === "" || out.write(text)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      out.off("error", onError);
+      resolve();
+    };
+    const onError = (err: Error) => {
+      out.off("drain", onDrain);
+      reject(err);
+    };
+    out.once("drain", onDrain);
+    out.once("error", onError);
+  });
+}
+
+function closeStream(out: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    out.once("error", reject);
+    out.end(() => resolve());
+  });
+}
+
+/**
+ * `logs export`: the period, filter, deployment, backend and build options
+ * are the parent `logs` command's; `--lines` applies per time chunk.
+ */
+export function registerLogsExportCommand(logs: Command): void {
+  logs
+    .command("export")
+    .description("Export logs to NDJSON, CSV or OTLP/JSON, fetched in time chunks")
+    .option("--format <format>", "ndjson, csv or otlp", "ndjson")
+    .option("-o, --output <file>", "Write to a file instead of stdout")
+    .option("--columns <attributes>", "Comma-separated attribute columns for CSV (dotted paths allowed)")
+    .option("--chunk <duration>", "Time span fetched per request (e.g. 15m, 1h, 6h)", "1h")
+    .option("--no-redact", "Export log messages without redacting secrets and personal data")
+    .option("--show-redactions", "Print a summary of what was redacted")
+    .action(async (options: ExportOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const parent = cmd.parent!;
+      const logsOptions = parent.opts();
+      const projectId: string = globals.projectId;
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+
+      try {
+        if (logsOptions.follow || logsOptions.patterns) {
+          throw new Error("logs export writes a fetched period; it cannot be combined with --follow or --patterns.");
+        }
+        const format = parseLogExportFormat(options.format);
+        if (options.columns && format !== "csv") {
+          throw new Error("--columns only applies to --format csv.");
+        }
+        const chunkMs = parseDurationMs(options.chunk);
+        const backend = getLogBackend(logsOptions.backend);
+        const fallback = logsOptions.filter ? parseLogFilter(logsOptions.filter).fallback : undefined;
+        if (fallback) spinner.warn(chalk.yellow(describeLogFilterFallback(fallback)));
+        const lines =
+          parent.getOptionValueSource("lines") === "default"
+            ? DEFAULT_CHUNK_LINES
+            : parseInt(logsOptions.lines, 10);
+
+        spinner.start("Verifying authentication...");
+        await verifyAuth();
+        spinner.succeed("Authenticated");
+
+        const { start, end } = parsePeriod(logsOptions.period);
+        const chunks = splitTimeRange(start, end, chunkMs);
+        const exporter = createLogExporter(format, {
+          columns: options.columns?.split(",").map((c) => c.trim()).filter(Boolean),
+          resource: { projectId, environmentId, serviceId },
+        });
+
+        const redactor = options.redact ? createRedactor(getConfig().redaction) : undefined;
+
+        const file = options.output ? createWriteStream(options.output) : undefined;
+        // An unwritable path errors while chunks are still being fetched; keep it for the next write
+        let writeError: Error | undefined;
+        file?.once("error", (err) => {
+          writeError = err;
+        });
+        const out: NodeJS.WritableStream = file ?? process.stdout;
+        await writeChunk(out, exporter.header());
+
+        let total = 0;
+        const truncated: string[] = [];
+        for (const [i, chunk] of chunks.entries()) {
+          spinner.start(`Exporting ${chunk.since} → ${chunk.until} (${i + 1}/${chunks.length}, ${total} entries so far)...`);
+          const { entries: fetched, coverage } = await backend.fetchLogs({
+            projectId,
+            environmentId,
+            serviceId,
+            deploymentId: logsOptions.deployment,
+            since: chunk.since,
+            until: chunk.until,
+            lines,
+            filter: logsOptions.filter,
+            build: logsOptions.build,
+          });
+          // Coverage counts lines before --filter; backends without it only have the filtered count
+          const cutOff = coverage ? coverage.some((c) => c.truncated) : false;
+          if (cutOff || fetched.length >= lines) truncated.push(chunk.since);
+
+          // Ranges are inclusive at both ends; leave boundary entries to the next chunk
+          const untilMs = new Date(chunk.until).getTime();
+          const inChunk =
+            i < chunks.length - 1
+              ? fetched.filter((e) => new Date(e.timestamp).getTime() < untilMs)
+              : fetched;
+          const entries = redactor ? inChunk.map((e) => redactor.redactEntry(e)) : inChunk;
+
+          if (writeError) throw writeError;
+          await writeChunk(out, exporter.chunk(entries));
+          total += entries.length;
+        }
+        if (writeError) throw writeError;
+        if (file) await closeStream(file);
+
+        spinner.succeed(
+          `Exported ${total} log entries as ${format}${options.output ? ` to ${options.output}` : ""}`
+        );
+        if (options.showRedactions) {
+          spinner.info(redactor ? describeRedactions(redactor.summary()) : "Redaction disabled (--no-redact)");
+        }
+        if (truncated.length > 0) {
+          console.error(
+            chalk.yellow(
+              `${truncated.length} chunk(s) reached the ${lines}-line limit and may be incomplete (first at ${truncated[0]}).\n` +
+                "Use a shorter --chunk or a higher --lines."
+            )
+          );
+        }
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(1);
+      }
+    });
+}
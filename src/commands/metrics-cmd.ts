@@ -4,10 +4,18 @@ import type { Command } from "commander";
 import { verifyAuth } from "../services/auth.js";
 import { fetchAllMetrics, fetchHttpMetrics } from "../services/railway-client.js";
 import { parsePeriod, calculateSampleRate } from "../utils/time.js";
+import { describeError } from "../services/errors.js";
+import { buildRouteFilters, collectRouteMetrics } from "../services/metrics.js";
+import { buildReplicaBreakdown, describeHotReplica, maxMetricSeries, mergeMetricSeries } from "../services/replicas.js";
+import { displayRouteMetrics } from "./routes.js";
 import type { MetricResult, HttpMetricsResponse } from "../types/railway.js";
 
+const LIMIT_MEASUREMENTS = ["CPU_LIMIT", "MEMORY_LIMIT_GB"];
+
 interface MetricsOptions {
   period: string;
+  path?: string[];
+  method?: string;
   json?: boolean;
 }
 
@@ -16,6 +24,8 @@ export function registerMetricsCommand(program: Command): void {
     .command("metrics")
     .description("Fetch and display resource metrics for a Railway service")
     .option("-p, --period <period>", "Time period (e.g., 1h, 6h, 24h, 7d)", "1h")
+    .option("--path <paths...>", "Add a per-route HTTP breakdown for these paths")
+    .option("--method <method>", "HTTP method for --path routes without their own method")
     .option("--json", "Output as JSON")
     .action(async (options: MetricsOptions, cmd: Command) => {
       const globals = cmd.optsWithGlobals();
@@ -38,24 +48,44 @@ export function registerMetricsCommand(program: Command): void {
         const sampleRate = calculateSampleRate(start, end);
 
         spinner.start("Fetching metrics...");
-        const [response, httpResponse] = await Promise.all([
+        const warnings: string[] = [];
+        const routeFilters = options.path ? buildRouteFilters(options.path, options.method) : [];
+        const [response, httpResponse, routeMetrics] = await Promise.all([
           fetchAllMetrics(environmentId, serviceId, start, end, sampleRate),
-          fetchHttpMetrics(environmentId, serviceId, start, end, sampleRate).catch(() => null),
+          fetchHttpMetrics(environmentId, serviceId, start, end, sampleRate).catch((err) => {
+            warnings.push(`HTTP metrics unavailable: ${describeError(err).message}`);
+            return null;
+          }),
+          routeFilters.length > 0
+            ? collectRouteMetrics(environmentId, serviceId, start, end, sampleRate, routeFilters)
+            : null,
         ]);
+        if (routeMetrics) warnings.push(...routeMetrics.failures);
         spinner.succeed("Metrics fetched");
+        for (const warning of warnings) {
+          spinner.warn(chalk.yellow(warning));
+        }
 
         if (options.json) {
-          console.log(JSON.stringify({ ...response, http: httpResponse }, null, 2));
+          console.log(
+            JSON.stringify({ ...response, http: httpResponse, routes: routeMetrics?.routes }, null, 2)
+          );
           return;
         }
 
         displayMetrics(response.metrics, options.period);
+        displayReplicas(response.metrics);
         if (httpResponse) {
           displayHttpMetrics(httpResponse, options.period);
         }
+        if (routeMetrics) {
+          displayRouteMetrics(routeMetrics.routes, options.period);
+        }
       } catch (err) {
         spinner.fail("Error");
-        console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
         process.exit(1);
       }
     });
@@ -66,24 +96,31 @@ function displayMetrics(metrics: MetricResult[], period: string): void {
 
   const metricLabels: Record<string, { label: string; unit: string; multiplier: number }> = {
     CPU_USAGE: { label: "CPU Usage", unit: "cores", multiplier: 1 },
-    CPU_LIMIT: { label: "CPU Limit", unit: "cores", multiplier: 1 },
+    CPU_LIMIT: { label: "CPU Limit (per replica)", unit: "cores", multiplier: 1 },
     MEMORY_USAGE_GB: { label: "Memory Usage", unit: "MB", multiplier: 1024 },
-    MEMORY_LIMIT_GB: { label: "Memory Limit", unit: "MB", multiplier: 1024 },
+    MEMORY_LIMIT_GB: { label: "Memory Limit (per replica)", unit: "MB", multiplier: 1024 },
     NETWORK_RX_GB: { label: "Network RX", unit: "MB", multiplier: 1024 },
     NETWORK_TX_GB: { label: "Network TX", unit: "MB", multiplier: 1024 },
     DISK_USAGE_GB: { label: "Disk Usage", unit: "MB", multiplier: 1024 },
   };
 
-  for (const metric of metrics) {
-    const config = metricLabels[metric.measurement] || {
-      label: metric.measurement,
+  // Series are per replica; show the service-wide sum for each measurement,
+  // except limits, which apply to each replica on its own
+  const measurements = Array.from(new Set(metrics.map((m) => m.measurement)));
+
+  for (const measurement of measurements) {
+    const config = metricLabels[measurement] || {
+      label: measurement,
       unit: "",
       multiplier: 1,
     };
 
-    if (metric.values.length === 0) continue;
+    const series = LIMIT_MEASUREMENTS.includes(measurement)
+      ? maxMetricSeries(metrics, measurement)
+      : mergeMetricSeries(metrics, measurement);
+    if (series.length === 0) continue;
 
-    const values = metric.values.map((v) => v.value * config.multiplier);
+    const values = series.map((v) => v.value * config.multiplier);
     const avg = values.reduce((a, b) => a + b, 0) / values.length;
     const min = Math.min(...values);
     const max = Math.max(...values);
@@ -94,11 +131,44 @@ function displayMetrics(metrics: MetricResult[], period: string): void {
     console.log(`    Avg:    ${avg.toFixed(2)} ${config.unit}`);
     console.log(`    Min:    ${min.toFixed(2)} ${config.unit}`);
     console.log(`    Max:    ${max.toFixed(2)} ${config.unit}`);
-    console.log(`    Points: ${metric.values.length}`);
+    console.log(`    Points: ${series.length}`);
     console.log();
   }
 }
 
+function displayReplicas(metrics: MetricResult[]): void {
+  const breakdown = buildReplicaBreakdown(metrics);
+  if (breakdown.instances.length < 2) return;
+
+  console.log(chalk.bold(`Replicas (${breakdown.instances.length})\n`));
+  const hotIds = new Set(breakdown.hot.map((h) => h.instanceId));
+  for (const r of breakdown.instances) {
+    const line =
+      `  ${r.instanceId.substring(0, 12).padEnd(14)}${(r.region ?? "").padEnd(22)}` +
+      `CPU avg ${r.cpu.avg.toFixed(3)} max ${r.cpu.max.toFixed(3)} cores  ` +
+      `Mem avg ${(r.memory.avg * 1024).toFixed(0)} max ${(r.memory.max * 1024).toFixed(0)} MB`;
+    console.log(hotIds.has(r.instanceId) ? chalk.red(line) : line);
+  }
+
+  if (breakdown.regions.length > 1) {
+    console.log(chalk.bold(`\nRegions (${breakdown.regions.length})\n`));
+    for (const region of breakdown.regions) {
+      console.log(
+        `  ${region.region.padEnd(22)}${String(region.replicaCount).padStart(3)} replica(s)  ` +
+          `CPU avg ${region.cpu.avg.toFixed(3)} cores  Mem avg ${(region.memory.avg * 1024).toFixed(0)} MB`
+      );
+    }
+  }
+
+  if (breakdown.hot.length > 0) {
+    console.log(chalk.bold.red("\nHot replicas"));
+    for (const h of breakdown.hot) {
+      console.log(chalk.red(`  ${describeHotReplica(h)}`));
+    }
+  }
+  console.log();
+}
+
 function displayHttpMetrics(httpResponse: HttpMetricsResponse, period: string): void {
   const samples = httpResponse.httpDurationMetrics.samples;
 
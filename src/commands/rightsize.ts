@@ -0,0 +1,110 @@
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import { fetchAllMetrics } from "../services/railway-client.js";
+import { buildRightsizeReport, CEILING_PERCENT } from "../services/utilization.js";
+import type { ResourceRecommendation, RightsizeReport } from "../services/utilization.js";
+import { parsePeriod, calculateSampleRate } from "../utils/time.js";
+import { describeError } from "../services/errors.js";
+
+interface RightsizeOptions {
+  period: string;
+  headroom: string;
+  json?: boolean;
+}
+
+export function registerRightsizeCommand(program: Command): void {
+  program
+    .command("rightsize")
+    .description("Recommend CPU and memory limits from p95/p99 usage plus headroom")
+    .option("-p, --period <period>", "Time period to base recommendations on", "7d")
+    .option("--headroom <percent>", "Headroom to add above observed usage", "30")
+    .option("--json", "Output as JSON")
+    .action(async (options: RightsizeOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+
+      try {
+        const headroom = parseFloat(options.headroom);
+        if (!Number.isFinite(headroom) || headroom < 0) {
+          throw new Error(`Invalid --headroom "${options.headroom}". Use a percentage like 30.`);
+        }
+
+        spinner.start("Verifying authentication...");
+        const authSource = await verifyAuth();
+        spinner.succeed(`Authenticated via ${chalk.cyan(authSource)}`);
+
+        if (!serviceId) {
+          spinner.fail("No service specified");
+          console.log(chalk.yellow("\nProvide --service-id <id> to specify the service."));
+          process.exit(1);
+        }
+
+        const { start, end } = parsePeriod(options.period);
+        const sampleRate = calculateSampleRate(start, end);
+
+        spinner.start("Fetching usage and limits...");
+        const response = await fetchAllMetrics(environmentId, serviceId, start, end, sampleRate);
+        spinner.succeed("Metrics fetched");
+
+        const report = buildRightsizeReport(response.metrics, headroom);
+
+        if (options.json) {
+          console.log(JSON.stringify({ period: { start, end }, ...report }, null, 2));
+          return;
+        }
+
+        displayRightsizeReport(report, options.period);
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(1);
+      }
+    });
+}
+
+function displayRecommendation(rec: ResourceRecommendation): void {
+  const fmt = (v: number) =>
+    rec.resource === "cpu" ? `${v.toFixed(2)} cores` : `${(v * 1024).toFixed(0)} MB`;
+  const color =
+    rec.change === "increase" ? chalk.red : rec.change === "decrease" ? chalk.yellow : chalk.green;
+
+  console.log(chalk.cyan(`  ${rec.resource === "cpu" ? "CPU" : "Memory"} (per replica):`));
+  console.log(`    Current limit: ${rec.currentLimit > 0 ? fmt(rec.currentLimit) : "unknown"}`);
+  console.log(`    Usage p95:     ${fmt(rec.p95)}`);
+  console.log(`    Usage p99:     ${fmt(rec.p99)}`);
+  console.log(`    Usage max:     ${fmt(rec.max)}`);
+  console.log(color(`    Recommended:   ${fmt(rec.recommendedLimit)} (${rec.change})`));
+  console.log(chalk.dim(`    ${rec.reason}`));
+  console.log();
+}
+
+function displayRightsizeReport(report: RightsizeReport, period: string): void {
+  console.log(
+    chalk.bold(
+      `\nRight-sizing (last ${period}, ${report.replicaCount} replica(s), ${report.headroomPercent}% headroom)\n`
+    )
+  );
+  displayRecommendation(report.cpu);
+  displayRecommendation(report.memory);
+
+  if (report.ceilingHits.length > 0) {
+    console.log(chalk.bold.red(`Replicas hitting their memory ceiling (>= ${CEILING_PERCENT}% of limit)`));
+    for (const hit of report.ceilingHits) {
+      const where = hit.region ? ` (${hit.region})` : "";
+      console.log(
+        chalk.red(
+          `  ${hit.instanceId.substring(0, 12)}${where}: ${hit.samplesNearCeiling}/${hit.totalSamples} samples, peak ${hit.maxPercent.toFixed(1)}%`
+        )
+      );
+    }
+    console.log();
+  } else {
+    console.log(chalk.green(`No replica reached ${CEILING_PERCENT}% of its memory limit.\n`));
+  }
+}
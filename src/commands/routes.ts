@@ -0,0 +1,130 @@
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import { buildRouteFilters, collectRouteMetrics, rankRoutes } from "../services/metrics.js";
+import { parsePeriod, calculateSampleRate } from "../utils/time.js";
+import { describeError } from "../services/errors.js";
+import type { HttpRouteMetrics } from "../types/railway.js";
+
+interface RoutesOptions {
+  period: string;
+  path: string[];
+  method?: string;
+  sort: "p99" | "5xx";
+  json?: boolean;
+}
+
+export function registerRoutesCommand(program: Command): void {
+  program
+    .command("routes")
+    .description("Show HTTP latency percentiles and status-code mix per route, worst first")
+    .requiredOption(
+      "--path <paths...>",
+      'Route paths to break down (prefix with a method to scope it, e.g. "POST /api/orders")'
+    )
+    .option("--method <method>", "HTTP method applied to paths without their own method")
+    .option("-p, --period <period>", "Time period (e.g., 1h, 6h, 24h, 7d)", "1h")
+    .option("--sort <key>", "Rank routes by p99 or 5xx", "p99")
+    .option("--json", "Output as JSON")
+    .action(async (options: RoutesOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+
+      try {
+        if (options.sort !== "p99" && options.sort !== "5xx") {
+          throw new Error(`Invalid --sort "${options.sort}". Use p99 or 5xx.`);
+        }
+
+        spinner.start("Verifying authentication...");
+        const authSource = await verifyAuth();
+        spinner.succeed(`Authenticated via ${chalk.cyan(authSource)}`);
+
+        if (!serviceId) {
+          spinner.fail("No service specified");
+          console.log(chalk.yellow("\nProvide --service-id <id> to specify the service."));
+          process.exit(1);
+        }
+
+        const { start, end } = parsePeriod(options.period);
+        const sampleRate = calculateSampleRate(start, end);
+        const filters = buildRouteFilters(options.path, options.method);
+
+        spinner.start(`Fetching HTTP metrics for ${filters.length} route(s)...`);
+        const { routes, failures } = await collectRouteMetrics(
+          environmentId,
+          serviceId,
+          start,
+          end,
+          sampleRate,
+          filters
+        );
+        spinner.succeed(`Fetched metrics for ${routes.length} route(s)`);
+        for (const failure of failures) {
+          spinner.warn(chalk.yellow(failure));
+        }
+
+        const ranked = rankRoutes(routes, options.sort);
+
+        if (options.json) {
+          console.log(JSON.stringify({ period: { start, end }, routes: ranked }, null, 2));
+          return;
+        }
+
+        displayRouteMetrics(ranked, options.period);
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Print a per-route latency and status-code table, followed by the worst
+ * routes by p99 and by 5xx count.
+ */
+export function displayRouteMetrics(routes: HttpRouteMetrics[], period: string): void {
+  if (routes.length === 0) {
+    console.log(chalk.yellow("\nNo HTTP metrics found for the requested routes."));
+    return;
+  }
+
+  console.log(chalk.bold(`\nHTTP Routes (last ${period})\n`));
+  console.log(
+    chalk.dim(
+      `  ${"Route".padEnd(32)} ${"Reqs".padStart(8)} ${"p50".padStart(8)} ${"p90".padStart(8)} ${"p95".padStart(8)} ${"p99".padStart(8)} ${"5xx".padStart(6)} ${"5xx %".padStart(7)}`
+    )
+  );
+  for (const r of routes) {
+    const lat = r.latency;
+    const line = `  ${r.route.padEnd(32)} ${String(r.totalRequests).padStart(8)} ${lat.p50.avg.toFixed(1).padStart(8)} ${lat.p90.avg.toFixed(1).padStart(8)} ${lat.p95.avg.toFixed(1).padStart(8)} ${lat.p99.avg.toFixed(1).padStart(8)} ${String(r.errors5xx).padStart(6)} ${(r.errorRate * 100).toFixed(2).padStart(6)}%`;
+    console.log(r.errors5xx > 0 ? chalk.red(line) : line);
+
+    const codeDetails = r.statusCodes
+      .map((b) => `${b.bucket}: ${b.count}`)
+      .join(", ");
+    if (codeDetails) console.log(chalk.dim(`    ${codeDetails}`));
+  }
+
+  const slowest = rankRoutes(routes, "p99").filter((r) => r.latency.p99.dataPoints > 0).slice(0, 3);
+  const failing = rankRoutes(routes, "5xx").filter((r) => r.errors5xx > 0).slice(0, 3);
+
+  if (slowest.length > 0) {
+    console.log(chalk.bold("\nSlowest routes (peak p99)"));
+    for (const r of slowest) {
+      console.log(`  ${chalk.cyan(r.route)}: ${r.latency.p99.max.toFixed(1)} ms`);
+    }
+  }
+  if (failing.length > 0) {
+    console.log(chalk.bold("\nMost 5xx errors"));
+    for (const r of failing) {
+      console.log(`  ${chalk.cyan(r.route)}: ${r.errors5xx} (${(r.errorRate * 100).toFixed(2)}%)`);
+    }
+  }
+  console.log();
+}
@@ -0,0 +1,126 @@
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import {
+  collectSloReports,
+  describeSloObjective,
+  formatBurnRate,
+  slosForService,
+} from "../services/slo.js";
+import { describeError } from "../services/errors.js";
+import { getConfig } from "../utils/config.js";
+import { now } from "../utils/time.js";
+import type { SloReport } from "../types/railway.js";
+
+interface SloOptions {
+  name?: string[];
+  json?: boolean;
+}
+
+export function registerSloCommand(program: Command): void {
+  program
+    .command("slo")
+    .description("Show error budgets and burn rates for the SLOs defined in the config file")
+    .option("--name <names...>", "Only evaluate these SLOs")
+    .option("--json", "Output as JSON")
+    .action(async (options: SloOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+
+      try {
+        if (!serviceId) {
+          spinner.fail("No service specified");
+          console.log(chalk.yellow("\nProvide --service-id <id> to evaluate the service's SLOs."));
+          process.exit(1);
+        }
+
+        let slos = slosForService(getConfig().slos, serviceId);
+        if (options.name) {
+          const unknown = options.name.filter((n) => !slos.some((s) => s.name === n));
+          if (unknown.length > 0) {
+            throw new Error(`No SLO named ${unknown.join(", ")} for this service.`);
+          }
+          slos = slos.filter((s) => options.name!.includes(s.name));
+        }
+        if (slos.length === 0) {
+          spinner.fail("No SLOs defined");
+          console.log(chalk.yellow('\nAdd an "slos" list to the config file (see the README).'));
+          process.exit(1);
+        }
+
+        spinner.start("Verifying authentication...");
+        await verifyAuth();
+        spinner.succeed("Authenticated");
+
+        spinner.start(`Fetching HTTP metrics for ${slos.length} SLO(s)...`);
+        const reports = await collectSloReports({
+          environmentId,
+          serviceId,
+          slos,
+          endDate: now().toISOString(),
+          onChunk: (done, total) => {
+            spinner.text = `Fetching HTTP metrics for ${slos.length} SLO(s)... (${done}/${total})`;
+          },
+        });
+        spinner.succeed(`Evaluated ${reports.length} SLO(s)`);
+
+        if (options.json) {
+          console.log(JSON.stringify(reports, null, 2));
+          return;
+        }
+
+        for (const report of reports) {
+          displaySloReport(report);
+        }
+        console.log();
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(1);
+      }
+    });
+}
+
+function displaySloReport(report: SloReport): void {
+  const { definition, errorBudget } = report;
+  const color =
+    report.status === "breached"
+      ? chalk.red
+      : report.status === "at-risk"
+        ? chalk.yellow
+        : report.status === "met"
+          ? chalk.green
+          : chalk.dim;
+
+  console.log(chalk.bold(`\n${definition.name}`) + `  ${color.bold(report.status.toUpperCase())}`);
+  console.log(chalk.dim(`  ${describeSloObjective(definition)}`));
+  if (definition.description) console.log(chalk.dim(`  ${definition.description}`));
+
+  if (report.sli === undefined) {
+    console.log(chalk.dim(`  No HTTP data from ${report.window.start} to ${report.window.end}`));
+    return;
+  }
+
+  const unit = definition.type === "availability" ? "requests" : "windows";
+  console.log(`  SLI:     ${color(`${report.sli.toFixed(3)}%`)} (${report.good} of ${report.total} ${unit} good)`);
+  console.log(
+    `  Budget:  ${color(`${errorBudget.remainingPercent.toFixed(1)}% left`)} ` +
+      `(${errorBudget.consumed} of ${errorBudget.allowed.toFixed(1)} bad ${unit} allowed)`
+  );
+
+  const rates = report.burnRates.map((b) => {
+    const text = `${b.lookback} ${formatBurnRate(b.rate)}`;
+    return b.rate !== undefined && b.rate > 1 ? chalk.yellow(text) : text;
+  });
+  console.log(`  Burn:    ${rates.join("  ")}`);
+
+  for (const alert of report.alerts) {
+    const line = `  ${alert.severity.padEnd(6)} ${alert.long}/${alert.short} burn > ${alert.threshold}`;
+    console.log(alert.firing ? chalk.red(`${line}  FIRING`) : chalk.dim(line));
+  }
+}
@@ -3,6 +3,7 @@ import ora from "ora";
 import type { Command } from "commander";
 import { verifyAuth } from "../services/auth.js";
 import { fetchProject, fetchDeployments } from "../services/railway-client.js";
+import { describeError } from "../services/errors.js";
 
 export function registerStatusCommand(program: Command): void {
   program
@@ -81,15 +82,17 @@ export function registerStatusCommand(program: Command): void {
                 `  - ${chalk.dim(d.id.substring(0, 12))} | ${statusColor(d.status)} | ${d.createdAt}`
               );
             }
-          } catch {
-            spinner.warn("Could not fetch deployments");
+          } catch (err) {
+            spinner.warn(`Could not fetch deployments: ${describeError(err).message}`);
           }
         }
 
         console.log();
       } catch (err) {
         spinner.fail("Error");
-        console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
         process.exit(1);
       }
     });
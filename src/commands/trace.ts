@@ -0,0 +1,124 @@
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import { verifyAuth } from "../services/auth.js";
+import { getLogBackend } from "../services/log-backend.js";
+import {
+  buildRequestTrace,
+  correlationIdOf,
+  describeTrace,
+  findTraceEntries,
+  parseCorrelationKeys,
+} from "../services/tracing.js";
+import { detectSeverity } from "../services/severity.js";
+import { describeStack } from "../services/log-ingest.js";
+import { parsePeriod } from "../utils/time.js";
+import { describeError } from "../services/errors.js";
+import type { LogEntry, RequestTrace } from "../types/railway.js";
+
+interface TraceOptions {
+  period: string;
+  lines: string;
+  correlationKey?: string;
+  deployment?: string;
+  backend: string;
+  json?: boolean;
+}
+
+export function registerTraceCommand(program: Command): void {
+  program
+    .command("trace")
+    .description("Rebuild one request's timeline from logs sharing its request/trace ID")
+    .argument("<id>", "Request or trace ID")
+    .option("-p, --period <period>", "Time period to search", "24h")
+    .option("-n, --lines <count>", "Log lines to search per deployment", "5000")
+    .option(
+      "--correlation-key <keys>",
+      "Comma-separated log attributes that identify a request (default: requestId, traceId, x-request-id, ...)"
+    )
+    .option("--deployment <id>", "Only search this deployment's logs")
+    .option("--backend <name>", "Log source: graphql or cli", "graphql")
+    .option("--json", "Output as JSON")
+    .action(async (id: string, options: TraceOptions, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const projectId: string = globals.projectId;
+      const environmentId: string = globals.environmentId;
+      const serviceId: string | undefined = globals.serviceId;
+      const spinner = ora();
+
+      try {
+        const backend = getLogBackend(options.backend);
+        const keys = parseCorrelationKeys(options.correlationKey);
+
+        spinner.start("Verifying authentication...");
+        await verifyAuth();
+        spinner.succeed("Authenticated");
+
+        const { start, end } = parsePeriod(options.period);
+
+        spinner.start(`Searching logs for ${id}...`);
+        const { entries: logs } = await backend.fetchLogs({
+          projectId,
+          environmentId,
+          serviceId,
+          deploymentId: options.deployment,
+          since: start,
+          until: end,
+          lines: parseInt(options.lines, 10),
+        });
+        const entries = findTraceEntries(logs, id, keys);
+        spinner.succeed(`Found ${entries.length} entries in ${logs.length} searched`);
+
+        if (entries.length === 0) {
+          console.log(chalk.yellow(`\nNo log entries carry ${id} in the last ${options.period}.`));
+          console.log(chalk.dim(`Correlation keys searched: ${keys.join(", ")}`));
+          return;
+        }
+
+        const key = entries.map((e) => correlationIdOf(e, keys)?.key).find(Boolean) ?? "message";
+        const trace = buildRequestTrace(id, key, entries);
+
+        if (options.json) {
+          console.log(JSON.stringify({ trace, entries }, null, 2));
+          return;
+        }
+
+        displayTrace(trace, entries);
+      } catch (err) {
+        spinner.fail("Error");
+        const { message, hint } = describeError(err);
+        console.error(chalk.red(message));
+        if (hint) console.error(chalk.yellow(hint));
+        process.exit(1);
+      }
+    });
+}
+
+function displayTrace(trace: RequestTrace, entries: LogEntry[]): void {
+  const color = trace.outcome === "error" ? chalk.red : trace.outcome === "client-error" ? chalk.yellow : chalk.green;
+
+  console.log(chalk.bold(`\nRequest ${trace.id}`) + chalk.dim(` (${trace.key})`));
+  if (trace.method || trace.path) {
+    console.log(`  ${[trace.method, trace.path].filter(Boolean).join(" ")}`);
+  }
+  console.log(`  Outcome:  ${color(trace.outcome)}${trace.status !== undefined ? ` (${trace.status})` : ""}`);
+  console.log(`  Duration: ${trace.durationMs.toFixed(0)} ms (${trace.start} → ${trace.end})`);
+  console.log(`  Entries:  ${trace.entryCount} (${trace.errorCount} errors)`);
+  if (trace.deploymentIds.length > 0) {
+    console.log(`  Deployments: ${trace.deploymentIds.map((d) => d.substring(0, 12)).join(", ")}`);
+  }
+
+  console.log(chalk.bold("\nTimeline\n"));
+  const startMs = new Date(trace.start).getTime();
+  const sorted = [...entries].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  for (const e of sorted) {
+    const offset = `+${(new Date(e.timestamp).getTime() - startMs).toFixed(0)}ms`.padStart(9);
+    const severity = detectSeverity(e);
+    const level = `[${severity.toUpperCase()}]`.padEnd(8);
+    const line = `${chalk.dim(offset)} ${level}${e.stack ? describeStack(e.stack) : e.message}`;
+    console.log(severity === "error" || severity === "fatal" ? chalk.red(line) : line);
+  }
+  console.log(chalk.dim(`\n${describeTrace(trace)}\n`));
+}
@@ -6,6 +6,15 @@ import { registerAnalyzeCommand } from "./commands/analyze.js";
 import { registerMetricsCommand } from "./commands/metrics-cmd.js";
 import { registerLogsCommand } from "./commands/logs-cmd.js";
 import { registerStatusCommand } from "./commands/status.js";
+import { registerRoutesCommand } from "./commands/routes.js";
+import { registerRightsizeCommand } from "./commands/rightsize.js";
+import { registerTraceCommand } from "./commands/trace.js";
+import { registerBuildReportCommand } from "./commands/build-report.js";
+import { registerDeployDiffCommand } from "./commands/deploy-diff.js";
+import { registerSloCommand } from "./commands/slo.js";
+import { registerCheckCommand } from "./commands/check.js";
+import { startRecording, startReplay } from "./services/recorder.js";
+import { loadConfig } from "./utils/config.js";
 
 /**
  * Parse a Railway dashboard URL into project, service, and environment IDs.
@@ -63,9 +72,25 @@ program
   .option("--project-id <id>", "Railway project ID")
   .option("--environment-id <id>", "Railway environment ID")
   .option("--service-id <id>", "Railway service ID")
+  .option("--record <dir>", "Record all Railway API requests and responses to a directory")
+  .option("--replay <dir>", "Serve Railway API responses from a recording (no network)")
+  .option("--config <file>", "Config file (default: ./railway-metrics.config.json if present)")
   .hook("preAction", (thisCommand) => {
     const opts = thisCommand.opts();
 
+    if (opts.record && opts.replay) {
+      console.error("error: options '--record' and '--replay' cannot be used together");
+      process.exit(1);
+    }
+    try {
+      if (opts.record) startRecording(opts.record);
+      if (opts.replay) startReplay(opts.replay);
+      loadConfig(opts.config);
+    } catch (err) {
+      console.error(`error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+
     // If --url is provided, parse it and fill in any missing IDs
     if (opts.url) {
       const parsed = parseRailwayUrl(opts.url);
@@ -92,5 +117,12 @@ registerAnalyzeCommand(program);
 registerMetricsCommand(program);
 registerLogsCommand(program);
 registerStatusCommand(program);
+registerRoutesCommand(program);
+registerRightsizeCommand(program);
+registerTraceCommand(program);
+registerBuildReportCommand(program);
+registerDeployDiffCommand(program);
+registerSloCommand(program);
+registerCheckCommand(program);
 
 program.parse();
@@ -1,20 +1,65 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { ServiceHealthReport, TimelineWindow } from "../types/railway.js";
+import type {
+  BuildReport,
+  DeployDiff,
+  DeploymentNode,
+  HealthScore,
+  PeriodComparison,
+  HttpRouteMetrics,
+  LogMetricDefinition,
+  LogPattern,
+  ServiceHealthReport,
+  SloReport,
+  TimelineWindow,
+  UtilizationSummary,
+} from "../types/railway.js";
 import { formatDuration } from "../utils/time.js";
+import { describeHotReplica } from "./replicas.js";
+import { clusterLogPatterns } from "./log-patterns.js";
+import { describeStack } from "./log-ingest.js";
+import { isErrorEntry, isWarningEntry } from "./severity.js";
+import { CEILING_PERCENT } from "./utilization.js";
+import { describeTrace } from "./tracing.js";
+import { describeLogMetric, formatLogMetricValue } from "./log-metrics.js";
+import { describeLogCoverage } from "./log-merge.js";
+import { describeRedactions } from "./redaction.js";
+import { describeAnomalyTrigger } from "./anomaly.js";
+import { describeDeployDiff } from "./deploy-diff.js";
+import { describeHealthRule } from "./health-score.js";
+import { describeSloObjective, describeSloReport, formatBurnRate } from "./slo.js";
+import {
+  describePatternDelta,
+  describeSignalDelta,
+  formatChange,
+  formatDeltaValue,
+  formatOffset,
+  formatPValue,
+  signalLabel,
+} from "./comparison.js";
+import { describeBuildFailure, describeStageComparison, formatBuildDuration } from "./build-diagnostics.js";
 
 const MODEL = "claude-sonnet-4-20250514";
 
-function formatTimelineTable(timeline: TimelineWindow[]): string {
-  const header = "| Time | CPU (cores) | Memory (MB) | p99 (ms) | Requests | 5xx | Error Logs | Anomaly |";
-  const sep =    "|------|-------------|-------------|----------|----------|-----|------------|---------|";
+function formatTimelineTable(timeline: TimelineWindow[], logMetrics: LogMetricDefinition[] = []): string {
+  const custom = logMetrics.map((m) => m.name);
+  const header = `| Time | CPU (cores) | Memory (MB) | p99 (ms) | Requests | 5xx | Error Logs |${custom.map((n) => ` ${n} |`).join("")} Anomaly |`;
+  const sep =    `|------|-------------|-------------|----------|----------|-----|------------|${custom.map(() => "---|").join("")}---------|`;
   const rows = timeline.map((w) => {
     const time = new Date(w.start).toISOString().slice(11, 16);
-    const anomaly = w.isAnomaly ? "**YES**" : "";
-    return `| ${time} | ${w.cpu.toFixed(3)} | ${w.memoryMb.toFixed(0)} | ${w.p99.toFixed(0)} | ${w.requests} | ${w.errors5xx} | ${w.errorLogs} | ${anomaly} |`;
+    const anomaly = w.isAnomaly ? `**${(w.anomalies ?? []).map((a) => a.signal).join(", ") || "YES"}**` : "";
+    const customCells = custom.map((n) => ` ${formatLogMetricValue(w.custom?.[n])} |`).join("");
+    return `| ${time} | ${w.cpu.toFixed(3)} | ${w.memoryMb.toFixed(0)} | ${w.p99.toFixed(0)} | ${w.requests} | ${w.errors5xx} | ${w.errorLogs} |${customCells} ${anomaly} |`;
   });
   return [header, sep, ...rows].join("\n");
 }
 
+/** Non-zero user-defined log metrics in a window, e.g. "payment_declined 12" */
+function customSignals(w: TimelineWindow): string[] {
+  return Object.entries(w.custom ?? {})
+    .filter(([, value]) => value !== 0)
+    .map(([name, value]) => `${name} ${formatLogMetricValue(value)}`);
+}
+
 function formatAnomalySummary(timeline: TimelineWindow[]): string {
   const anomalies = timeline.filter((w) => w.isAnomaly);
   if (anomalies.length === 0) return "No anomalous time windows detected.";
@@ -28,33 +73,203 @@ function formatAnomalySummary(timeline: TimelineWindow[]): string {
     if (w.p99 > 0) signals.push(`p99 ${w.p99.toFixed(0)} ms`);
     if (w.errors5xx > 0) signals.push(`${w.errors5xx} 5xx errors`);
     if (w.errorLogs > 0) signals.push(`${w.errorLogs} error logs`);
-    return `- **${start}–${end}**: ${signals.join(", ")}`;
+    signals.push(...customSignals(w));
+    const triggers = (w.anomalies ?? []).map(describeAnomalyTrigger);
+    const flagged = triggers.length > 0 ? `\n  - Flagged by: ${triggers.join(", ")}` : "";
+    const traces = (w.traces ?? []).map((t) => `\n  - Request ${describeTrace(t)}: ${t.summary}`);
+    return `- **${start}–${end}**: ${signals.join(", ")}${flagged}${traces.join("")}`;
   }).join("\n");
 }
 
+function formatRouteTable(routes: HttpRouteMetrics[]): string {
+  const header = "| Route | Requests | p50 avg | p95 avg | p99 avg | p99 max | 5xx | 5xx rate |";
+  const sep =    "|-------|----------|---------|---------|---------|---------|-----|----------|";
+  const rows = routes.map((r) => {
+    const lat = r.latency;
+    return `| ${r.route} | ${r.totalRequests} | ${lat.p50.avg.toFixed(1)} | ${lat.p95.avg.toFixed(1)} | ${lat.p99.avg.toFixed(1)} | ${lat.p99.max.toFixed(1)} | ${r.errors5xx} | ${(r.errorRate * 100).toFixed(2)}% |`;
+  });
+  return [header, sep, ...rows].join("\n");
+}
+
+function formatUtilization(
+  label: string,
+  u: UtilizationSummary | undefined,
+  formatLimit: (limit: number) => string
+): string {
+  if (!u) return "";
+  return `
+### ${label} Utilization (busiest replica, percent of its limit)
+- Limit per replica: ${formatLimit(u.limit)}
+- Average: ${u.avgPercent.toFixed(1)}%
+- p95: ${u.p95Percent.toFixed(1)}%
+- Max: ${u.maxPercent.toFixed(1)}%
+- Samples at or above ${CEILING_PERCENT}% of limit: ${u.samplesNearCeiling} of ${u.values.length}${u.samplesNearCeiling > 0 ? `\n\n**WARNING**: ${label.toLowerCase()} is repeatedly at its limit${label === "Memory" ? " — risk of OOM kills" : " — risk of throttling"}` : ""}
+`;
+}
+
+// Long templates and samples are cut so one verbose pattern can't crowd out the rest
+const MAX_PATTERN_CHARS = 300;
+const STACK_FRAMES_IN_PROMPT = 5;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function formatPatternList(patterns: LogPattern[], withWindows: boolean): string {
+  return patterns
+    .map((p) => {
+      const severities = Object.entries(p.severities)
+        .map(([level, count]) => `${level}: ${count}`)
+        .join(", ");
+      const lines = [
+        `- ${p.count}× \`${truncate(p.template, MAX_PATTERN_CHARS)}\` (first ${p.firstSeen}, last ${p.lastSeen}; ${severities})`,
+      ];
+      if (p.stack) {
+        const frames = p.stack.frames.slice(0, STACK_FRAMES_IN_PROMPT).join(" | ");
+        lines.push(`  Stack (${p.stack.runtime}, ${p.stack.frames.length} frames): ${truncate(frames, MAX_PATTERN_CHARS)}`);
+        for (const cause of p.stack.causes ?? []) {
+          lines.push(`  Caused by: ${truncate(cause, MAX_PATTERN_CHARS)}`);
+        }
+      } else if (p.sample !== p.template) {
+        lines.push(`  Sample: ${truncate(p.sample, MAX_PATTERN_CHARS)}`);
+      }
+      if (withWindows && p.windowCounts && p.windowCounts.length > 0) {
+        lines.push(`  Per window: ${p.windowCounts.join(" ")}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+function formatCoverageSummary(report: ServiceHealthReport): string {
+  const coverage = report.logCoverage ?? [];
+  if (coverage.length === 0) return "";
+  const truncated = coverage.filter((c) => c.truncated);
+  const duplicates = coverage.reduce((s, c) => s + c.duplicates, 0);
+  const lines = [
+    `- Log fetches: ${coverage.length} (${truncated.length} cut off by the line limit)${duplicates > 0 ? `, ${duplicates} duplicate lines dropped` : ""}`,
+  ];
+  if (truncated.length > 0) {
+    lines.push(
+      "- **Incomplete logs** — counts before these times understate the real volume:",
+      ...truncated.map((c) => `  - ${describeLogCoverage(c)}`)
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+function formatBuildFailure(build: BuildReport): string {
+  const lines = [
+    `### ${build.deploymentId.substring(0, 8)} (${build.builder}, ${formatBuildDuration(build.totalDurationMs)} total)`,
+  ];
+  if (build.failure) {
+    lines.push(
+      `- **${describeBuildFailure(build.failure)}**`,
+      `- Context:`,
+      "```",
+      ...build.failure.context.map((l) => truncate(l, MAX_PATTERN_CHARS)),
+      "```"
+    );
+  } else {
+    lines.push("- No fatal error line found in the build logs.");
+  }
+  if (build.baseline && build.comparison) {
+    lines.push(`- Stage timings vs last successful build ${build.baseline.deploymentId.substring(0, 8)} (${formatBuildDuration(build.baseline.totalDurationMs)} total):`);
+    lines.push(...build.comparison.map((c) => `  - ${describeStageComparison(c)}`));
+  } else {
+    lines.push("- Stages:", ...build.stages.map((s) => `  - ${s.name} (${s.kind}): ${formatBuildDuration(s.durationMs)}`));
+  }
+  return lines.join("\n");
+}
+
+function formatHealthScore(health: HealthScore): string {
+  const header = "| Rule | Score | Weight | Value | Target / Limit | Reasons |";
+  const sep =    "|------|-------|--------|-------|----------------|---------|";
+  const rows = health.rules.map((r) => {
+    const value = r.value !== undefined ? `${+r.value.toFixed(2)} ${r.unit}` : "-";
+    return `| ${r.rule} | ${r.score ?? "skipped"} | ${r.weight} | ${value} | ${r.good} / ${r.bad} ${r.unit} | ${r.reasons.join("; ")} |`;
+  });
+  return [header, sep, ...rows].join("\n");
+}
+
+function formatSlos(slos: SloReport[]): string {
+  const header = "| SLO | Objective | Status | SLI | Budget Left | Burn 1h / 6h / 3d | Firing Alerts |";
+  const sep =    "|-----|-----------|--------|-----|-------------|-------------------|---------------|";
+  const rows = slos.map((r) => {
+    const burn = (lookback: string) => formatBurnRate(r.burnRates.find((b) => b.lookback === lookback)?.rate);
+    const firing = r.alerts.filter((a) => a.firing).map((a) => `${a.severity} ${a.long}/${a.short} > ${a.threshold}`);
+    return `| ${r.definition.name} | ${describeSloObjective(r.definition)} | ${r.status} | ${r.sli !== undefined ? `${r.sli.toFixed(3)}%` : "-"} | ${r.sli !== undefined ? `${r.errorBudget.remainingPercent.toFixed(1)}%` : "-"} | ${burn("1h")} / ${burn("6h")} / ${burn("3d")} | ${firing.join(", ") || "none"} |`;
+  });
+  return [header, sep, ...rows].join("\n");
+}
+
+function formatComparison(comparison: PeriodComparison): string {
+  const rows = comparison.deltas.map((d) => {
+    const significance = d.pValue === undefined ? "not tested" : `${d.significant ? "**yes**" : "no"} (${formatPValue(d.pValue)})`;
+    return `| ${signalLabel(d.signal)} | ${formatDeltaValue(d.baseline, d.unit)} | ${formatDeltaValue(d.current, d.unit)} | ${formatChange(d)} | ${significance} |`;
+  });
+  const lines = [
+    `Baseline period: ${comparison.baseline.start} to ${comparison.baseline.end} (${comparison.spec}). A change is significant when its test gives p < 0.05; treat the others as noise.`,
+    "",
+    "| Signal | Baseline | Current | Change | Significant |",
+    "|--------|----------|---------|--------|-------------|",
+    ...rows,
+  ];
+  if (comparison.patterns.length > 0) {
+    lines.push("", "### Error Patterns That Changed (per hour)", ...comparison.patterns.map((p) => `- ${describePatternDelta(p)}`));
+  }
+  if (comparison.timeline) {
+    lines.push(
+      "",
+      "### Aligned Timelines (current / baseline at the same offset into the period)",
+      "| Offset | CPU (cores) | Memory (MB) | p99 (ms) | Requests | 5xx | Error Logs |",
+      "|--------|-------------|-------------|----------|----------|-----|------------|",
+      ...comparison.timeline.map((r) => {
+        const pair = (now: number, then: number | undefined, digits: number) =>
+          `${now.toFixed(digits)} / ${then !== undefined ? then.toFixed(digits) : "-"}`;
+        const b = r.baseline;
+        return `| ${formatOffset(r.offsetMs)} | ${pair(r.current.cpu, b?.cpu, 3)} | ${pair(r.current.memoryMb, b?.memoryMb, 0)} | ${pair(r.current.p99, b?.p99, 0)} | ${pair(r.current.requests, b?.requests, 0)} | ${pair(r.current.errors5xx, b?.errors5xx, 0)} | ${pair(r.current.errorLogs, b?.errorLogs, 0)} |`;
+      })
+    );
+  }
+  if (comparison.warnings) {
+    lines.push("", ...comparison.warnings.map((w) => `- Note: ${w}`));
+  }
+  return lines.join("\n");
+}
+
+function formatDeployDiff(diff: DeployDiff): string {
+  const lines = [
+    `### ${diff.deploymentId.substring(0, 8)}: **${diff.verdict}** (live at ${diff.cutover}${diff.previousDeploymentId ? `, replaced ${diff.previousDeploymentId.substring(0, 8)}` : ""})`,
+    ...diff.evidence.map((e) => `- ${e}`),
+    `- All signals (before → after): ${diff.deltas.map((d) => `${signalLabel(d.signal)} ${formatChange(d)}${d.significant ? "*" : ""}`).join(", ")} (* = significant)`,
+  ];
+  if (diff.newPatterns.length > 0) {
+    lines.push(
+      "- New log patterns after the cutover:",
+      ...diff.newPatterns.slice(0, 5).map((p) => `  - ${p.count}× ${truncate(p.template, MAX_PATTERN_CHARS)}`)
+    );
+  }
+  return lines.join("\n");
+}
+
+function formatActiveInterval(d: DeploymentNode): string {
+  if (!d.activeFrom) return " | Never served";
+  return ` | Active: ${d.activeFrom} → ${d.activeTo ?? "now"}`;
+}
+
 function buildAnalysisPrompt(report: ServiceHealthReport): string {
   const duration = formatDuration(report.period.start, report.period.end);
 
-  const errorLogs = report.logs.filter(
-    (l) =>
-      l.severity === "error" ||
-      l.severity === "ERROR" ||
-      l.message.toLowerCase().includes("error") ||
-      l.message.toLowerCase().includes("exception") ||
-      l.message.toLowerCase().includes("fatal")
-  );
+  const errorLogs = report.logs.filter(isErrorEntry);
+  const warningLogs = report.logs.filter(isWarningEntry);
 
-  const warningLogs = report.logs.filter(
-    (l) =>
-      l.severity === "warn" ||
-      l.severity === "WARNING" ||
-      l.message.toLowerCase().includes("warn")
-  );
-
-  // Limit logs for the prompt to avoid exceeding token limits
-  const recentErrorLogs = errorLogs.slice(-50);
-  const recentWarningLogs = warningLogs.slice(-20);
-  const recentLogs = report.logs.slice(-100);
+  // Repeated messages are sent as patterns with counts rather than verbatim,
+  // so one noisy error can't use up the token budget
+  const errorPatterns = clusterLogPatterns(errorLogs).slice(0, 20);
+  const warningPatterns = clusterLogPatterns(warningLogs).slice(0, 10);
+  const topPatterns = (report.patterns ?? []).slice(0, 25);
+  const recentLogs = report.logs.slice(-20);
 
   const failedDeployments = report.deployments.filter(
     (d) => d.status === "FAILED" || d.status === "CRASHED"
@@ -84,6 +299,28 @@ ${hasHighP99 ? "\n**WARNING**: p99 latency exceeds 1000ms (peak: " + lat.p99.max
 - Total Requests: ${http.totalRequests}
 ${http.statusCodes.map((b) => `- ${b.bucket}: ${b.count} requests${Object.entries(b.codes).map(([code, count]) => ` (${code}: ${count})`).join("")}`).join("\n")}
 ${has5xx ? "\n**WARNING**: " + has5xx.count + " server errors (5xx) detected" : ""}
+${http.routes && http.routes.length > 0 ? `
+### Per-Route Breakdown (worst p99 first)
+${formatRouteTable(http.routes)}
+` : ""}`;
+  }
+
+  // Build replica section when the service runs more than one replica
+  let replicaSection = "";
+  const replicas = report.replicas;
+  if (replicas && replicas.instances.length > 1) {
+    replicaSection = `
+### Replicas (${replicas.instances.length})
+| Replica | Region | CPU avg (cores) | CPU max | Memory avg (MB) | Memory max |
+|---------|--------|-----------------|---------|-----------------|------------|
+${replicas.instances.map((r) => `| ${r.instanceId.substring(0, 12)} | ${r.region ?? "-"} | ${r.cpu.avg.toFixed(3)} | ${r.cpu.max.toFixed(3)} | ${(r.memory.avg * 1024).toFixed(0)} | ${(r.memory.max * 1024).toFixed(0)} |`).join("\n")}
+${replicas.regions.length > 1 ? `
+### Regions
+${replicas.regions.map((r) => `- ${r.region}: ${r.replicaCount} replica(s), CPU avg ${r.cpu.avg.toFixed(3)} cores, memory avg ${(r.memory.avg * 1024).toFixed(0)} MB`).join("\n")}
+` : ""}
+${replicas.hot.length > 0 ? `**WARNING — hot replicas** (unhealthy while their peers are fine):
+${replicas.hot.map((h) => `- ${describeHotReplica(h)}`).join("\n")}
+` : "No replica is running significantly hotter than its peers."}
 `;
   }
 
@@ -95,11 +332,16 @@ ${has5xx ? "\n**WARNING**: " + has5xx.count + " server errors (5xx) detected" :
 ## Correlation Timeline (Cross-Signal View)
 
 This table shows all metrics aligned by time window. Use it to identify **which resource constraints correlate with latency degradation** and **map error logs to latency/status anomalies**.
-
-${formatTimelineTable(report.timeline)}
+${report.logMetrics ? `
+User-defined log metrics (extra columns; "-" means no samples in the window):
+${report.logMetrics.map((m) => `- ${describeLogMetric(m)}`).join("\n")}
+` : ""}
+${formatTimelineTable(report.timeline, report.logMetrics)}
 
 ## Detected Anomalies (${anomalies.length} windows)
-
+${report.anomalyDetection ? `
+Detectors (score > threshold flags a window): ${report.anomalyDetection}
+` : ""}
 ${formatAnomalySummary(report.timeline)}
 `;
   }
@@ -110,7 +352,23 @@ ${formatAnomalySummary(report.timeline)}
 - **Service**: ${report.service.name} (ID: ${report.service.id})
 - **Environment**: ${report.service.environment}
 - **Analysis Period**: ${duration} (${report.period.start} to ${report.period.end})
-${httpSection}${correlationSection}
+${report.healthScore ? `
+## Computed Health Score: ${report.healthScore.score}/100 (${report.healthScore.status})
+
+This score is computed deterministically from weighted rules and is the ground truth: explain it, don't replace it.
+
+${formatHealthScore(report.healthScore)}
+` : ""}${report.slos && report.slos.length > 0 ? `
+## SLOs
+
+Each SLO is measured over its own window ending now, not the analysis period. A burn rate of 1 spends exactly the error budget by the end of the window; an alert fires when both its long and short windows burn faster than its threshold.
+
+${formatSlos(report.slos)}
+` : ""}${report.comparison ? `
+## Baseline Comparison
+
+${formatComparison(report.comparison)}
+` : ""}${httpSection}${correlationSection}
 ## Resource Metrics
 
 ### CPU Usage
@@ -126,7 +384,7 @@ ${httpSection}${correlationSection}
 - Max: ${(report.metrics.memory.max * 1024).toFixed(1)} MB
 - Latest: ${(report.metrics.memory.latest * 1024).toFixed(1)} MB
 - Data Points: ${report.metrics.memory.dataPoints}
-
+${formatUtilization("CPU", report.metrics.utilization?.cpu, (v) => `${v.toFixed(2)} cores`)}${formatUtilization("Memory", report.metrics.utilization?.memory, (v) => `${(v * 1024).toFixed(0)} MB`)}
 ### Network Ingress (RX)
 - Average: ${(report.metrics.networkRx.avg * 1024).toFixed(2)} MB
 - Total Data Points: ${report.metrics.networkRx.dataPoints}
@@ -136,65 +394,82 @@ ${httpSection}${correlationSection}
 - Average: ${(report.metrics.networkTx.avg * 1024).toFixed(2)} MB
 - Total Data Points: ${report.metrics.networkTx.dataPoints}
 - Latest: ${(report.metrics.networkTx.latest * 1024).toFixed(2)} MB
-
-## Deployments (last 10)
+${replicaSection}
+## Deployments (active or created during the period)
 Total: ${report.deployments.length}
 Failed/Crashed: ${failedDeployments.length}
 ${report.deployments
   .map(
     (d) =>
-      `- ${d.id.substring(0, 8)}... | Status: ${d.status} | Created: ${d.createdAt}`
+      `- ${d.id.substring(0, 8)}... | Status: ${d.status} | Created: ${d.createdAt}${formatActiveInterval(d)}`
   )
   .join("\n")}
-
-## Logs Summary
+${report.buildFailures ? `
+## Failed Builds
+${report.buildFailures.map(formatBuildFailure).join("\n\n")}
+` : ""}${report.deployDiffs ? `
+## Deploy Impact (before vs after each cutover)
+Each deployment that went live is compared with the minutes before it; only significant changes (p < 0.05) of at least 10% (25% for CPU and memory) count toward the verdict.
+
+${report.deployDiffs.map(formatDeployDiff).join("\n\n")}
+` : ""}
+${report.requests ? `## Request Traces (correlated by ${report.requests.correlationKeys.join(", ")})
+- Requests reconstructed from logs: ${report.requests.total}
+- Failed: ${report.requests.failed}
+
+### Slowest Requests
+${report.requests.slowest.map((t) => `- ${describeTrace(t)} (started ${t.start}): ${t.summary}`).join("\n")}
+${report.requests.failures.length > 0 ? `
+### Failed Requests
+${report.requests.failures.map((t) => `- ${describeTrace(t)} (started ${t.start}): ${t.summary}`).join("\n")}
+` : ""}
+` : ""}## Logs Summary
 - Total log entries: ${report.logs.length}
 - Error logs: ${errorLogs.length}
 - Warning logs: ${warningLogs.length}
+${formatCoverageSummary(report)}${report.redactions && report.redactions.total > 0 ? `- Secrets and personal data were redacted as \`<kind:id>\` pseudonyms; the same id always stands for the same original value.
+` : ""}
+### Log Patterns (top ${topPatterns.length} of ${report.patterns?.length ?? 0}, by count)
+Messages are clustered into templates with variable parts masked (<NUM>, <UUID>, <IP>, <HEX>, <TS>, <*>).${report.timeline ? " Per-window counts align with the rows of the Correlation Timeline." : ""}
+${topPatterns.length > 0 ? formatPatternList(topPatterns, true) : "No log patterns."}
 
-### Recent Error Logs (last ${recentErrorLogs.length})
-${
-  recentErrorLogs.length > 0
-    ? recentErrorLogs
-        .map((l) => `[${l.timestamp}] ${l.message}`)
-        .join("\n")
-    : "No error logs found."
-}
+### Error Log Patterns (${errorPatterns.length} most frequent)
+${errorPatterns.length > 0 ? formatPatternList(errorPatterns, false) : "No error logs found."}
 
-### Recent Warning Logs (last ${recentWarningLogs.length})
-${
-  recentWarningLogs.length > 0
-    ? recentWarningLogs
-        .map((l) => `[${l.timestamp}] ${l.message}`)
-        .join("\n")
-    : "No warning logs found."
-}
+### Warning Log Patterns (${warningPatterns.length} most frequent)
+${warningPatterns.length > 0 ? formatPatternList(warningPatterns, false) : "No warning logs found."}
 
 ### Recent Logs (last ${recentLogs.length})
-${recentLogs.map((l) => `[${l.timestamp}] [${l.severity}] ${l.message}`).join("\n")}
+${recentLogs.map((l) => `[${l.timestamp}] [${l.severity}] ${l.stack ? describeStack(l.stack) : l.message}`).join("\n")}
 
 ---
 
 Please provide your analysis in the following structure:
 
-1. **Overall Health Score** (0-100) with a brief justification${report.metrics.http ? `
+1. **Overall Health Score**${report.healthScore ? ` — state the computed score of ${report.healthScore.score}/100 (${report.healthScore.status}) exactly as given and explain it from the rule results; do not compute your own` : " (0-100) with a brief justification"}${report.slos && report.slos.length > 0 ? `
+   - State each SLO's status and remaining error budget; for any SLO at risk or breached, name the signals that are spending its budget` : ""}${report.metrics.http ? `
 2. **HTTP Performance Assessment** (Primary Focus)
    - Latency analysis: p50/p90/p95/p99 trends and whether they are acceptable
    - Status code analysis: error rates (4xx/5xx), success rates
-   - Identify any latency spikes or elevated error rates
+   - Identify any latency spikes or elevated error rates${report.metrics.http.routes && report.metrics.http.routes.length > 0 ? `
+   - Name the specific routes responsible for slow responses or 5xx errors` : ""}
 3. **Resource Utilization Assessment**` : `
 2. **Resource Utilization Assessment**`}
    - CPU analysis and trends
    - Memory analysis and trends
-   - Network traffic patterns
+   - Network traffic patterns${replicaSection ? `
+   - Whether individual replicas or regions behave differently from the rest` : ""}
 ${report.timeline && report.timeline.length > 0 ? `${report.metrics.http ? "4" : "3"}. **Cross-Signal Correlation** (Key Section)
    - Identify which resource constraints (CPU, memory) correlate with latency degradation
    - Map error log timestamps to latency/status code anomalies
    - Determine root cause chains (e.g., memory pressure → GC pauses → latency spike → 5xx)
-   - Call out any anomaly windows where multiple signals spike together
+   - Call out any anomaly windows where multiple signals spike together${report.requests ? `
+   - Name the specific requests (by correlation ID) behind each anomalous window` : ""}
 ${report.metrics.http ? "5" : "4"}` : `${report.metrics.http ? "4" : "3"}`}. **Deployment Health**
    - Deployment success rate
-   - Any concerning patterns
+   - Any concerning patterns${report.buildFailures ? `
+   - For each failed build: whether it was a dependency install, compile error, timeout or something else, and the fix` : ""}${report.deployDiffs ? `
+   - For each deploy: whether it made things worse, confirming or challenging the verdict from its evidence` : ""}
 ${report.timeline ? (report.metrics.http ? "6" : "5") : (report.metrics.http ? "5" : "4")}. **Log Analysis**
    - Error patterns and root causes
    - Warning patterns
@@ -256,6 +531,42 @@ export function buildRawReport(report: ServiceHealthReport): string {
   lines.push(`Period: ${report.period.start} to ${report.period.end}`);
   lines.push(`Duration: ${formatDuration(report.period.start, report.period.end)}`);
 
+  if (report.healthScore) {
+    lines.push(`\n--- Health Score: ${report.healthScore.score}/100 (${report.healthScore.status}) ---`);
+    for (const r of report.healthScore.rules) lines.push(`  ${describeHealthRule(r)}`);
+  }
+
+  if (report.slos && report.slos.length > 0) {
+    lines.push(`\n--- SLOs ---`);
+    for (const r of report.slos) {
+      lines.push(`  ${describeSloReport(r)}`);
+      lines.push(`    ${describeSloObjective(r.definition)}`);
+    }
+  }
+
+  const comparison = report.comparison;
+  if (comparison) {
+    lines.push(`\n--- Baseline Comparison (${comparison.spec}: ${comparison.baseline.start} to ${comparison.baseline.end}) ---`);
+    for (const d of comparison.deltas) {
+      lines.push(`  ${d.significant ? "*" : " "} ${describeSignalDelta(d)}`);
+    }
+    if (comparison.patterns.length > 0) {
+      lines.push(`  Error patterns that changed:`);
+      for (const p of comparison.patterns) lines.push(`    ${describePatternDelta(p)}`);
+    }
+    if (comparison.timeline) {
+      lines.push(`  Aligned timelines (current / baseline):`);
+      lines.push(`    ${"Offset".padEnd(9)} ${"CPU".padStart(13)} ${"Mem MB".padStart(11)} ${"p99 ms".padStart(11)} ${"5xx".padStart(9)} ${"ErrLog".padStart(9)}`);
+      for (const r of comparison.timeline) {
+        const pair = (now: number, then: number | undefined, digits: number, width: number) =>
+          `${now.toFixed(digits)}/${then !== undefined ? then.toFixed(digits) : "-"}`.padStart(width);
+        const b = r.baseline;
+        lines.push(`    ${formatOffset(r.offsetMs).padEnd(9)} ${pair(r.current.cpu, b?.cpu, 3, 13)} ${pair(r.current.memoryMb, b?.memoryMb, 0, 11)} ${pair(r.current.p99, b?.p99, 0, 11)} ${pair(r.current.errors5xx, b?.errors5xx, 0, 9)} ${pair(r.current.errorLogs, b?.errorLogs, 0, 9)}`);
+      }
+    }
+    for (const w of comparison.warnings ?? []) lines.push(`  Note: ${w}`);
+  }
+
   lines.push(`\n--- CPU Usage ---`);
   lines.push(`  Avg: ${report.metrics.cpu.avg.toFixed(4)} cores`);
   lines.push(`  Min: ${report.metrics.cpu.min.toFixed(4)} cores`);
@@ -270,6 +581,19 @@ export function buildRawReport(report: ServiceHealthReport): string {
   lines.push(`  Latest: ${(report.metrics.memory.latest * 1024).toFixed(1)} MB`);
   lines.push(`  Data Points: ${report.metrics.memory.dataPoints}`);
 
+  const utilization = report.metrics.utilization;
+  if (utilization?.cpu || utilization?.memory) {
+    lines.push(`\n--- Utilization (busiest replica, percent of its limit) ---`);
+    if (utilization.cpu) {
+      const u = utilization.cpu;
+      lines.push(`  CPU:    limit ${u.limit.toFixed(2)} cores/replica  avg ${u.avgPercent.toFixed(1)}%  p95 ${u.p95Percent.toFixed(1)}%  max ${u.maxPercent.toFixed(1)}%  (${u.samplesNearCeiling} samples >= ${CEILING_PERCENT}%)`);
+    }
+    if (utilization.memory) {
+      const u = utilization.memory;
+      lines.push(`  Memory: limit ${(u.limit * 1024).toFixed(0)} MB/replica  avg ${u.avgPercent.toFixed(1)}%  p95 ${u.p95Percent.toFixed(1)}%  max ${u.maxPercent.toFixed(1)}%  (${u.samplesNearCeiling} samples >= ${CEILING_PERCENT}%)`);
+    }
+  }
+
   lines.push(`\n--- Network Ingress (RX) ---`);
   lines.push(`  Avg: ${(report.metrics.networkRx.avg * 1024).toFixed(2)} MB`);
   lines.push(`  Latest: ${(report.metrics.networkRx.latest * 1024).toFixed(2)} MB`);
@@ -280,6 +604,26 @@ export function buildRawReport(report: ServiceHealthReport): string {
   lines.push(`  Latest: ${(report.metrics.networkTx.latest * 1024).toFixed(2)} MB`);
   lines.push(`  Data Points: ${report.metrics.networkTx.dataPoints}`);
 
+  if (report.replicas && report.replicas.instances.length > 1) {
+    const { instances, regions, hot } = report.replicas;
+    lines.push(`\n--- Replicas (${instances.length}) ---`);
+    for (const r of instances) {
+      lines.push(`  ${r.instanceId.substring(0, 12).padEnd(14)}${(r.region ?? "-").padEnd(22)}CPU avg ${r.cpu.avg.toFixed(3)}  max ${r.cpu.max.toFixed(3)}  Mem avg ${(r.memory.avg * 1024).toFixed(0)} MB  max ${(r.memory.max * 1024).toFixed(0)} MB`);
+    }
+    if (regions.length > 1) {
+      lines.push(`\n--- Regions (${regions.length}) ---`);
+      for (const r of regions) {
+        lines.push(`  ${r.region.padEnd(22)}${r.replicaCount} replica(s)  CPU avg ${r.cpu.avg.toFixed(3)}  Mem avg ${(r.memory.avg * 1024).toFixed(0)} MB`);
+      }
+    }
+    if (hot.length > 0) {
+      lines.push(`\n  Hot replicas:`);
+      for (const h of hot) {
+        lines.push(`    ${describeHotReplica(h)}`);
+      }
+    }
+  }
+
   if (report.metrics.http) {
     const http = report.metrics.http;
     const lat = http.latency;
@@ -298,18 +642,34 @@ export function buildRawReport(report: ServiceHealthReport): string {
         .join(", ");
       lines.push(`  ${bucket.bucket}: ${bucket.count}  (${codeDetails})`);
     }
+
+    if (http.routes && http.routes.length > 0) {
+      lines.push(`\n--- HTTP Routes (worst p99 first) ---`);
+      lines.push(`  ${"Route".padEnd(32)} ${"Reqs".padStart(8)} ${"p50".padStart(8)} ${"p95".padStart(8)} ${"p99".padStart(8)} ${"p99 max".padStart(8)} ${"5xx".padStart(6)} ${"5xx %".padStart(7)}`);
+      for (const r of http.routes) {
+        const lat = r.latency;
+        lines.push(`  ${r.route.padEnd(32)} ${String(r.totalRequests).padStart(8)} ${lat.p50.avg.toFixed(1).padStart(8)} ${lat.p95.avg.toFixed(1).padStart(8)} ${lat.p99.avg.toFixed(1).padStart(8)} ${lat.p99.max.toFixed(1).padStart(8)} ${String(r.errors5xx).padStart(6)} ${(r.errorRate * 100).toFixed(2).padStart(6)}%`);
+      }
+    }
   }
 
   if (report.timeline && report.timeline.length > 0) {
+    const custom = (report.logMetrics ?? []).map((m) => m.name);
+    const width = (name: string) => Math.max(8, name.length);
     lines.push(`\n--- Correlation Timeline ---`);
-    lines.push(`  ${"Time".padEnd(6)} ${"CPU".padStart(8)} ${"Mem MB".padStart(8)} ${"p99 ms".padStart(8)} ${"Reqs".padStart(6)} ${"5xx".padStart(5)} ${"ErrLog".padStart(7)} ${"Anomaly".padStart(8)}`);
+    for (const m of report.logMetrics ?? []) {
+      lines.push(`  ${describeLogMetric(m)}`);
+    }
+    lines.push(`  ${"Time".padEnd(6)} ${"CPU".padStart(8)} ${"Mem MB".padStart(8)} ${"p99 ms".padStart(8)} ${"Reqs".padStart(6)} ${"5xx".padStart(5)} ${"ErrLog".padStart(7)}${custom.map((n) => ` ${n.padStart(width(n))}`).join("")} ${"Anomaly".padStart(8)}`);
     for (const w of report.timeline) {
       const time = new Date(w.start).toISOString().slice(11, 16);
-      lines.push(`  ${time.padEnd(6)} ${w.cpu.toFixed(3).padStart(8)} ${w.memoryMb.toFixed(0).padStart(8)} ${w.p99.toFixed(0).padStart(8)} ${String(w.requests).padStart(6)} ${String(w.errors5xx).padStart(5)} ${String(w.errorLogs).padStart(7)} ${(w.isAnomaly ? "YES" : "").padStart(8)}`);
+      const customCells = custom.map((n) => ` ${formatLogMetricValue(w.custom?.[n]).padStart(width(n))}`).join("");
+      lines.push(`  ${time.padEnd(6)} ${w.cpu.toFixed(3).padStart(8)} ${w.memoryMb.toFixed(0).padStart(8)} ${w.p99.toFixed(0).padStart(8)} ${String(w.requests).padStart(6)} ${String(w.errors5xx).padStart(5)} ${String(w.errorLogs).padStart(7)}${customCells} ${(w.isAnomaly ? "YES" : "").padStart(8)}`);
     }
 
     const anomalies = report.timeline.filter((w) => w.isAnomaly);
     lines.push(`\n--- Detected Anomalies (${anomalies.length} windows) ---`);
+    if (report.anomalyDetection) lines.push(`  Detectors: ${report.anomalyDetection}`);
     if (anomalies.length === 0) {
       lines.push(`  No anomalous time windows detected.`);
     } else {
@@ -322,7 +682,12 @@ export function buildRawReport(report: ServiceHealthReport): string {
         if (w.p99 > 0) signals.push(`p99 ${w.p99.toFixed(0)}ms`);
         if (w.errors5xx > 0) signals.push(`${w.errors5xx} 5xx`);
         if (w.errorLogs > 0) signals.push(`${w.errorLogs} errors`);
+        signals.push(...customSignals(w));
         lines.push(`  ${start}-${end}: ${signals.join(", ")}`);
+        if (w.anomalies) lines.push(`    flagged by ${w.anomalies.map(describeAnomalyTrigger).join(", ")}`);
+        for (const t of w.traces ?? []) {
+          lines.push(`    request ${describeTrace(t)}`);
+        }
       }
     }
   }
@@ -330,32 +695,66 @@ export function buildRawReport(report: ServiceHealthReport): string {
   lines.push(`\n--- Deployments ---`);
   lines.push(`  Total: ${report.deployments.length}`);
   for (const d of report.deployments) {
-    lines.push(`  - ${d.id.substring(0, 12)} | ${d.status} | ${d.createdAt}`);
+    lines.push(`  - ${d.id.substring(0, 12)} | ${d.status} | ${d.createdAt}${formatActiveInterval(d)}`);
+  }
+
+  for (const build of report.buildFailures ?? []) {
+    lines.push(`\n--- Failed Build ${build.deploymentId.substring(0, 12)} (${build.builder}, ${formatBuildDuration(build.totalDurationMs)}) ---`);
+    if (build.failure) {
+      lines.push(`  ${describeBuildFailure(build.failure)}`);
+    }
+    if (build.comparison) {
+      for (const c of build.comparison) lines.push(`  ${describeStageComparison(c)}`);
+    } else {
+      for (const s of build.stages) lines.push(`  ${s.name} (${s.kind}): ${formatBuildDuration(s.durationMs)}`);
+    }
+  }
+
+  if (report.deployDiffs) {
+    lines.push(`\n--- Deploy Impact ---`);
+    for (const diff of report.deployDiffs) {
+      lines.push(`  ${describeDeployDiff(diff)}`);
+      for (const e of diff.evidence) lines.push(`    ${e}`);
+      for (const p of diff.newPatterns.slice(0, 5)) lines.push(`    new pattern ${p.count}x: ${p.template}`);
+    }
   }
 
-  const errorCount = report.logs.filter(
-    (l) =>
-      l.severity === "error" ||
-      l.severity === "ERROR" ||
-      l.message.toLowerCase().includes("error")
-  ).length;
+  const errors = report.logs.filter(isErrorEntry);
 
   lines.push(`\n--- Logs ---`);
   lines.push(`  Total entries: ${report.logs.length}`);
-  lines.push(`  Errors: ${errorCount}`);
+  lines.push(`  Errors: ${errors.length}`);
+  lines.push(`  Warnings: ${report.logs.filter(isWarningEntry).length}`);
+  if (report.redactions) {
+    lines.push(`  ${describeRedactions(report.redactions)}`);
+  }
+  if (report.logCoverage && report.logCoverage.length > 0) {
+    lines.push(`  Coverage:`);
+    for (const c of report.logCoverage) {
+      lines.push(`    ${describeLogCoverage(c)}`);
+    }
+  }
 
-  if (errorCount > 0) {
+  if (errors.length > 0) {
     lines.push(`\n  Recent errors:`);
-    const errors = report.logs
-      .filter(
-        (l) =>
-          l.severity === "error" ||
-          l.severity === "ERROR" ||
-          l.message.toLowerCase().includes("error")
-      )
-      .slice(-10);
-    for (const e of errors) {
-      lines.push(`    [${e.timestamp}] ${e.message}`);
+    for (const e of errors.slice(-10)) {
+      lines.push(`    [${e.timestamp}] ${e.stack ? describeStack(e.stack) : e.message}`);
+    }
+  }
+
+  if (report.requests) {
+    const { total, failed, slowest } = report.requests;
+    lines.push(`\n--- Request Traces (${total} requests, ${failed} failed) ---`);
+    for (const t of slowest.slice(0, 5)) {
+      lines.push(`  ${describeTrace(t)}`);
+    }
+  }
+
+  if (report.patterns && report.patterns.length > 0) {
+    lines.push(`\n--- Log Patterns (top ${Math.min(10, report.patterns.length)} of ${report.patterns.length}) ---`);
+    for (const p of report.patterns.slice(0, 10)) {
+      lines.push(`  ${String(p.count).padStart(6)}×  ${truncate(p.template, 100)}`);
+      lines.push(`           first ${p.firstSeen}  last ${p.lastSeen}`);
     }
   }
 
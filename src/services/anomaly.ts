@@ -0,0 +1,264 @@
+import type { AnomalyDetectorName, AnomalyTrigger, TimelineWindow } from "../types/railway.js";
+import { mean, median, stddev } from "../utils/stats.js";
+
+/**
+ * Anomaly detection over the correlation timeline. Each signal (CPU, memory,
+ * p99, 5xx, error logs and any log metrics) is scored per window by a
+ * detector; a window is anomalous when any signal's score exceeds its
+ * detector's threshold. Only upward deviations count.
+ *
+ *   stddev     z-score against the mean and standard deviation (k = 2)
+ *   mad        robust z-score against the median and MAD (k = 3.5); the default
+ *   ewma       deviation from an exponentially weighted moving average of
+ *              the windows before it (k = 3)
+ *   cusum      cumulative sum of robust z-scores above 0.5, so a sustained
+ *              shift is flagged for as long as it lasts (h = 5)
+ *   threshold  a fixed value, e.g. p99 above 800 ms
+ */
+
+export interface AnomalyDetector {
+  readonly name: AnomalyDetectorName;
+  /** A window is flagged when its score exceeds this */
+  readonly threshold: number;
+  /** One score per value; undefined where the value is missing or can't be judged */
+  score(values: Array<number | undefined>): Array<number | undefined>;
+}
+
+export interface AnomalyDetection {
+  /** Detector for signals without their own */
+  fallback: AnomalyDetector;
+  bySignal: Record<string, AnomalyDetector>;
+}
+
+export const TIMELINE_SIGNALS = ["cpu", "memoryMb", "p99", "errors5xx", "errorLogs"] as const;
+
+// Deviations smaller than this fraction of the typical value are noise, so a
+// flat service doesn't flag its own jitter
+const MIN_RELATIVE_SCALE = 0.1;
+
+// Consistency constants: MAD and mean absolute deviation scaled to σ for normal data
+const MAD_TO_SIGMA = 1.4826;
+const MEAN_AD_TO_SIGMA = 1.2533;
+
+const EWMA_ALPHA = 0.3;
+// Windows the EWMA sees before it starts scoring
+const EWMA_WARMUP = 3;
+// CUSUM slack: shifts under half a σ don't accumulate
+const CUSUM_SLACK = 0.5;
+
+/**
+ * Robust spread of a series: MAD, falling back to the mean absolute deviation
+ * when more than half the values are identical (e.g. mostly-zero error
+ * counts), floored at a fraction of the median.
+ */
+function robustScale(values: number[]): { center: number; scale: number } {
+  const center = median(values);
+  const deviations = values.map((v) => Math.abs(v - center));
+  let scale = MAD_TO_SIGMA * median(deviations);
+  if (scale === 0) scale = MEAN_AD_TO_SIGMA * mean(deviations);
+  return { center, scale: Math.max(scale, MIN_RELATIVE_SCALE * Math.abs(center)) };
+}
+
+function present(values: Array<number | undefined>): number[] {
+  return values.filter((v): v is number => v !== undefined);
+}
+
+export function stddevDetector(k = 2): AnomalyDetector {
+  return {
+    name: "stddev",
+    threshold: k,
+    score(values) {
+      const known = present(values);
+      const m = mean(known);
+      const sd = stddev(known);
+      if (known.length < 2 || sd === 0) return values.map(() => undefined);
+      return values.map((v) => (v === undefined ? undefined : (v - m) / sd));
+    },
+  };
+}
+
+export function madDetector(k = 3.5): AnomalyDetector {
+  return {
+    name: "mad",
+    threshold: k,
+    score(values) {
+      const known = present(values);
+      const { center, scale } = robustScale(known);
+      if (known.length < 2 || scale === 0) return values.map(() => undefined);
+      return values.map((v) => (v === undefined ? undefined : (v - center) / scale));
+    },
+  };
+}
+
+export function ewmaDetector(k = 3): AnomalyDetector {
+  return {
+    name: "ewma",
+    threshold: k,
+    score(values) {
+      // Until the moving variance builds up, judge against the whole series' spread
+      const fallback = robustScale(present(values)).scale;
+      let average: number | undefined;
+      let variance = 0;
+      let seen = 0;
+      return values.map((v) => {
+        if (v === undefined) return undefined;
+        let score: number | undefined;
+        if (average === undefined) {
+          average = v;
+        } else {
+          if (seen >= EWMA_WARMUP) {
+            const scale = Math.max(Math.sqrt(variance), MIN_RELATIVE_SCALE * Math.abs(average)) || fallback;
+            if (scale > 0) score = (v - average) / scale;
+          }
+          const diff = v - average;
+          average += EWMA_ALPHA * diff;
+          variance = (1 - EWMA_ALPHA) * (variance + EWMA_ALPHA * diff * diff);
+        }
+        seen++;
+        return score;
+      });
+    },
+  };
+}
+
+export function cusumDetector(h = 5): AnomalyDetector {
+  return {
+    name: "cusum",
+    threshold: h,
+    score(values) {
+      const known = present(values);
+      const { center, scale } = robustScale(known);
+      if (known.length < 2 || scale === 0) return values.map(() => undefined);
+      // Only windows that add to the sum are scored: after a shift ends the
+      // sum drains slowly and would keep flagging normal windows
+      let sum = 0;
+      return values.map((v) => {
+        if (v === undefined) return undefined;
+        const previous = sum;
+        sum = Math.max(0, sum + (v - center) / scale - CUSUM_SLACK);
+        return sum > previous ? sum : undefined;
+      });
+    },
+  };
+}
+
+export function thresholdDetector(limit: number): AnomalyDetector {
+  return {
+    name: "threshold",
+    threshold: limit,
+    score: (values) => values,
+  };
+}
+
+const DETECTORS: Record<AnomalyDetectorName, (param?: number) => AnomalyDetector> = {
+  stddev: stddevDetector,
+  mad: madDetector,
+  ewma: ewmaDetector,
+  cusum: cusumDetector,
+  threshold: (limit) => {
+    if (limit === undefined) {
+      throw new Error('The threshold detector needs a value, e.g. "p99=threshold:800".');
+    }
+    return thresholdDetector(limit);
+  },
+};
+
+export function defaultAnomalyDetection(): AnomalyDetection {
+  return { fallback: madDetector(), bySignal: {} };
+}
+
+function parseDetector(text: string): AnomalyDetector {
+  const [name, param, ...rest] = text.split(":").map((p) => p.trim());
+  const factory = DETECTORS[name as AnomalyDetectorName];
+  if (!factory || rest.length > 0) {
+    throw new Error(`Unknown anomaly detector "${text}". Use ${Object.keys(DETECTORS).join(", ")}, with an optional ":<value>".`);
+  }
+  if (param === undefined) return factory();
+  const value = Number(param);
+  if (param === "" || !Number.isFinite(value)) {
+    throw new Error(`Invalid value in anomaly detector "${text}": expected a number.`);
+  }
+  return factory(value);
+}
+
+/**
+ * Parse a `--detector` spec: comma-separated `[signal=]detector[:value]`.
+ * A bare detector applies to every signal without its own, e.g.
+ * "ewma,p99=threshold:800,errorLogs=cusum". `signals` lists the valid signal
+ * names (timeline fields plus log metric names).
+ */
+export function parseAnomalyDetection(spec: string | undefined, signals: string[]): AnomalyDetection {
+  const detection = defaultAnomalyDetection();
+  if (!spec) return detection;
+
+  for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const eq = part.indexOf("=");
+    if (eq < 0) {
+      detection.fallback = parseDetector(part);
+      continue;
+    }
+    const signal = part.slice(0, eq).trim();
+    if (!signals.includes(signal)) {
+      throw new Error(`Unknown signal "${signal}" in --detector. Use one of: ${signals.join(", ")}.`);
+    }
+    detection.bySignal[signal] = parseDetector(part.slice(eq + 1));
+  }
+  return detection;
+}
+
+function signalValue(w: TimelineWindow, signal: string): number | undefined {
+  return (TIMELINE_SIGNALS as readonly string[]).includes(signal)
+    ? (w[signal as (typeof TIMELINE_SIGNALS)[number]] as number)
+    : w.custom?.[signal];
+}
+
+/**
+ * Score every signal across the windows and record what flagged each
+ * anomalous window in `anomalies`. Log metric gauges are only scored in
+ * windows that have a value.
+ */
+export function detectAnomalies(
+  windows: TimelineWindow[],
+  detection: AnomalyDetection,
+  customSignals: string[] = []
+): void {
+  for (const signal of [...TIMELINE_SIGNALS, ...customSignals]) {
+    const detector = detection.bySignal[signal] ?? detection.fallback;
+    const values = windows.map((w) => signalValue(w, signal));
+    const scores = detector.score(values);
+
+    windows.forEach((w, i) => {
+      const score = scores[i];
+      if (score === undefined || !(score > detector.threshold)) return;
+      const trigger: AnomalyTrigger = {
+        signal,
+        detector: detector.name,
+        value: values[i]!,
+        score,
+        threshold: detector.threshold,
+      };
+      (w.anomalies ??= []).push(trigger);
+      w.isAnomaly = true;
+    });
+  }
+}
+
+/**
+ * "mad > 3.5; p99: threshold > 800; errorLogs: cusum > 5".
+ */
+export function describeAnomalyDetection(detection: AnomalyDetection): string {
+  const describe = (d: AnomalyDetector) => `${d.name} > ${d.threshold}`;
+  return [
+    describe(detection.fallback),
+    ...Object.entries(detection.bySignal).map(([signal, d]) => `${signal}: ${describe(d)}`),
+  ].join("; ");
+}
+
+/**
+ * "p99 (mad 6.2 > 3.5)", or "p99 (1800 > 800)" for a static threshold.
+ */
+export function describeAnomalyTrigger(t: AnomalyTrigger): string {
+  return t.detector === "threshold"
+    ? `${t.signal} (${+t.value.toFixed(3)} > ${t.threshold})`
+    : `${t.signal} (${t.detector} ${t.score.toFixed(1)} > ${t.threshold})`;
+}
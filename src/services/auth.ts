@@ -3,6 +3,7 @@ import { homedir } from "os";
 import { join } from "path";
 import { execSync } from "child_process";
 import type { RailwayConfig } from "../types/railway.js";
+import { getReplayDir } from "./recorder.js";
 
 const RAILWAY_CONFIG_PATH = join(homedir(), ".railway", "config.json");
 
@@ -42,6 +43,11 @@ export async function getToken(): Promise<string> {
  * Returns the token source description.
  */
 export async function verifyAuth(): Promise<string> {
+  const replayDir = getReplayDir();
+  if (replayDir) {
+    return `replayed captures (${replayDir})`;
+  }
+
   if (process.env.RAILWAY_TOKEN) {
     return "API token (RAILWAY_TOKEN)";
   }
@@ -0,0 +1,366 @@
+import type {
+  BuildFailure,
+  BuildFailureCategory,
+  BuildReport,
+  BuildStage,
+  BuildStageComparison,
+  BuildStageKind,
+  DeploymentNode,
+  LogEntry,
+} from "../types/railway.js";
+import { fetchLogBatch, pageDeployments } from "./railway-client.js";
+import { hasServed } from "./deployments.js";
+import type { Redactor } from "./redaction.js";
+
+/**
+ * Build log diagnostics: split a deployment's build logs into stages
+ * (Nixpacks/Railpack BuildKit steps, classic Dockerfile steps, Railway
+ * phases), time them, find the first fatal error and classify the failure.
+ */
+
+// "#7 [stage-0 4/11] RUN npm ci", "#12 [install 2/3] RUN ...", "#3 [internal] load .dockerignore"
+const BUILDKIT_STEP = /^#(\d+) \[([^\]]+)\] (.+)$/;
+const BUILDKIT_LINE = /^#(\d+) (.*)$/;
+const BUILDKIT_DONE = /^DONE (\d+(?:\.\d+)?)s$/;
+const BUILDKIT_STATUS = /^(?:DONE|CACHED|ERROR|CANCELED|\d+\.\d+ )/;
+// Classic builder: "Step 3/10 : RUN npm install"
+const DOCKER_STEP = /^Step \d+\/\d+ : (.+)$/;
+const BUILDER_LINE = /\bUsing (Nixpacks|Railpack|Detected Dockerfile|Dockerfile)\b/i;
+const HEALTHCHECK_LINE = /Starting Healthcheck/i;
+
+const INSTALL_COMMAND =
+  /\b(?:npm (?:ci|install|i)|yarn install|yarn --frozen-lockfile|pnpm (?:i|install)|bun install|pip3? install|poetry install|uv sync|pipenv install|bundle install|go mod download|cargo fetch|composer install|mix deps\.get)\b|apt-get (?:update|install)|apk add|nix-env/i;
+const BUILD_COMMAND =
+  /\b(?:npm run build|yarn (?:run )?build|pnpm (?:run )?build|bun (?:run )?build|tsc|next build|vite build|nest build|go build|cargo build|mvn|gradlew?|dotnet (?:build|publish)|mix compile|make)\b/i;
+const EXPORT_STEP = /exporting to image|exporting layers|pushing layers|writing image|naming to|Publishing|Uploading/i;
+const SETUP_STEP = /^(?:FROM|WORKDIR|ENV|ARG|LABEL|USER)\b|load build definition|load metadata|load \.dockerignore|resolve image|transferring context/i;
+
+// First lines of a fatal error, in rough order of how specific they are
+const FATAL_LINE =
+  /npm ERR!|^npm error|error TS\d+:|\berror\[E\d+\]|^ERROR:|^#\d+ ERROR:|^error:|\bERR_PNPM_|ModuleNotFoundError|No matching distribution|Could not find a version|Cannot find module|Module not found|SyntaxError|failed to solve|did not complete successfully|Build failed|timed out|deadline exceeded|Killed|out of memory|ENOMEM|Healthcheck failed|never became healthy/i;
+
+const CONTEXT_BEFORE = 5;
+const CONTEXT_AFTER = 5;
+
+interface StageBuilder {
+  stage: BuildStage;
+  startMs: number;
+  endMs: number;
+  doneMs?: number;
+}
+
+function stageKind(command: string, group?: string): BuildStageKind {
+  if (group === "internal" || SETUP_STEP.test(command)) return "setup";
+  if (/^(?:COPY|ADD)\b/i.test(command)) return "copy";
+  if (INSTALL_COMMAND.test(command)) return "install";
+  if (BUILD_COMMAND.test(command)) return "build";
+  if (EXPORT_STEP.test(command)) return "export";
+  // Railpack and Nixpacks name their steps after the phase: [install 2/3], [build 1/1]
+  const phase = group?.split(/\s+/)[0];
+  if (phase === "install" || phase === "build" || phase === "setup") return phase;
+  return "other";
+}
+
+/** "RUN --mount=type=cache,id=x /bin/bash -ol pipefail -c 'npm ci'" → "RUN npm ci" */
+function stageName(command: string): string {
+  const cleaned = command
+    .replace(/--mount=\S+\s*/g, "")
+    .replace(/\/bin\/(?:ba)?sh -ol? pipefail -c\s*/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return cleaned.length > 80 ? `${cleaned.slice(0, 79)}…` : cleaned;
+}
+
+function detectBuilder(entries: LogEntry[]): BuildReport["builder"] {
+  for (const e of entries) {
+    const m = e.message.match(BUILDER_LINE);
+    if (m) {
+      const name = m[1].toLowerCase();
+      if (name === "nixpacks") return "nixpacks";
+      if (name === "railpack") return "railpack";
+      return "dockerfile";
+    }
+    if (/Nixpacks v\d/.test(e.message)) return "nixpacks";
+    if (/Railpack \d|railpack-frontend/i.test(e.message)) return "railpack";
+  }
+  return entries.some((e) => DOCKER_STEP.test(e.message)) ? "dockerfile" : "unknown";
+}
+
+/**
+ * Split build log entries into timed stages. BuildKit lines carry a step
+ * number (`#7 ...`) and may interleave, so they're grouped by step; other
+ * lines belong to the most recent sequential stage.
+ */
+export function splitBuildStages(entries: LogEntry[]): BuildStage[] {
+  const stages: StageBuilder[] = [];
+  const buildkitSteps = new Map<string, StageBuilder>();
+  let current: StageBuilder | undefined;
+
+  const open = (name: string, kind: BuildStageKind, ms: number, timestamp: string): StageBuilder => {
+    const builder: StageBuilder = {
+      stage: { name, kind, start: timestamp, end: timestamp, durationMs: 0, lines: 0 },
+      startMs: ms,
+      endMs: ms,
+    };
+    stages.push(builder);
+    return builder;
+  };
+  const touch = (builder: StageBuilder, ms: number, timestamp: string) => {
+    builder.stage.lines++;
+    if (ms >= builder.endMs) {
+      builder.endMs = ms;
+      builder.stage.end = timestamp;
+    }
+  };
+
+  for (const entry of entries) {
+    const ms = new Date(entry.timestamp).getTime();
+    const message = entry.message.trim();
+
+    const step = message.match(BUILDKIT_STEP);
+    const line = step ? undefined : message.match(BUILDKIT_LINE);
+    if (step || line) {
+      const id = (step ?? line)![1];
+      let builder = buildkitSteps.get(id);
+      if (!builder) {
+        const text = step ? step[3] : line![2];
+        // Progress lines for a step we never saw announced are kept with the current stage
+        if (!step && BUILDKIT_STATUS.test(text)) {
+          if (current) touch(current, ms, entry.timestamp);
+          continue;
+        }
+        builder = open(stageName(text), stageKind(text, step?.[2]), ms, entry.timestamp);
+        buildkitSteps.set(id, builder);
+        // Unnumbered lines after BuildKit starts are its summary output, not the earlier stage
+        current = undefined;
+      }
+      const status = line?.[2] ?? "";
+      const done = status.match(BUILDKIT_DONE);
+      if (done) builder.doneMs = parseFloat(done[1]) * 1000;
+      if (status === "CACHED") builder.stage.cached = true;
+      touch(builder, ms, entry.timestamp);
+      continue;
+    }
+
+    const dockerStep = message.match(DOCKER_STEP);
+    if (dockerStep) {
+      current = open(stageName(dockerStep[1]), stageKind(dockerStep[1]), ms, entry.timestamp);
+    } else if (BUILDER_LINE.test(message)) {
+      current = open("Detect builder", "detect", ms, entry.timestamp);
+    } else if (HEALTHCHECK_LINE.test(message)) {
+      current = open("Healthcheck", "healthcheck", ms, entry.timestamp);
+    } else if (!current) {
+      current = buildkitSteps.size > 0
+        ? open("Build output", "other", ms, entry.timestamp)
+        : open("Build setup", "setup", ms, entry.timestamp);
+    }
+    touch(current, ms, entry.timestamp);
+  }
+
+  // Sequential stages run until the next stage of any kind starts
+  const steps = new Set(buildkitSteps.values());
+  const byStart = [...stages].sort((a, b) => a.startMs - b.startMs);
+  for (const [i, b] of byStart.entries()) {
+    if (steps.has(b)) continue;
+    const next = byStart.slice(i + 1).find((n) => n.startMs > b.startMs);
+    if (next && next.startMs > b.endMs) {
+      b.endMs = next.startMs;
+      b.stage.end = next.stage.start;
+    }
+  }
+
+  return stages
+    .map((b) => {
+      b.stage.durationMs = b.doneMs ?? Math.max(0, b.endMs - b.startMs);
+      return b;
+    })
+    .sort((a, b) => a.startMs - b.startMs)
+    .map((b) => b.stage);
+}
+
+function stageOf(stages: BuildStage[], timestamp: string): BuildStage | undefined {
+  const ms = new Date(timestamp).getTime();
+  // Latest-starting stage that covers the time
+  let found: BuildStage | undefined;
+  for (const s of stages) {
+    if (new Date(s.start).getTime() <= ms && ms <= new Date(s.end).getTime()) found = s;
+  }
+  return found;
+}
+
+function categorize(failure: { message: string; context: string[] }, stage?: BuildStage): BuildFailureCategory {
+  const text = [failure.message, ...failure.context].join("\n");
+  if (/timed? ?out|deadline exceeded/i.test(text)) return "timeout";
+  if (/exit code: 137|\bKilled\b|out of memory|ENOMEM|heap out of memory/i.test(text)) return "out-of-memory";
+  if (stage?.kind === "healthcheck" || /Healthcheck failed|never became healthy/i.test(text)) return "healthcheck";
+  if (stage?.kind === "install") return "dependency-install";
+  if (stage?.kind === "build") return "compile";
+  if (/ERESOLVE|ETARGET|E404|Could not find a version|No matching distribution|unable to resolve dependency|ERR_PNPM_/i.test(text)) {
+    return "dependency-install";
+  }
+  if (/error TS\d+|SyntaxError|Cannot find module|Module not found|error\[E\d+\]|compilation failed/i.test(text)) {
+    return "compile";
+  }
+  return "other";
+}
+
+/**
+ * The first fatal line with the lines around it, and what kind of failure it is.
+ */
+export function findBuildFailure(entries: LogEntry[], stages: BuildStage[]): BuildFailure | undefined {
+  const index = entries.findIndex((e) => FATAL_LINE.test(e.message));
+  if (index === -1) return undefined;
+  const entry = entries[index];
+  const context = entries
+    .slice(Math.max(0, index - CONTEXT_BEFORE), index + CONTEXT_AFTER + 1)
+    .map((e) => e.message);
+  const stage = stageOf(stages, entry.timestamp);
+  // Drop the BuildKit step number and elapsed time: "#7 9.1 error TS2304..." → "error TS2304..."
+  const message = entry.message.replace(/^#\d+ (?:\d+\.\d+ )?/, "");
+  return {
+    category: categorize({ message, context }, stage),
+    stage: stage?.name,
+    message,
+    timestamp: entry.timestamp,
+    context,
+  };
+}
+
+/** Step numbers differ between builds; compare stages by kind and name */
+function stageKey(stage: BuildStage): string {
+  return `${stage.kind}:${stage.name.toLowerCase()}`;
+}
+
+export function compareBuildStages(stages: BuildStage[], baseline: BuildStage[]): BuildStageComparison[] {
+  const baselineMs = new Map<string, number>();
+  for (const s of baseline) {
+    baselineMs.set(stageKey(s), (baselineMs.get(stageKey(s)) ?? 0) + s.durationMs);
+  }
+  return stages.map((s) => ({
+    name: s.name,
+    kind: s.kind,
+    durationMs: s.durationMs,
+    baselineMs: baselineMs.get(stageKey(s)),
+  }));
+}
+
+function totalDuration(entries: LogEntry[]): number {
+  if (entries.length === 0) return 0;
+  const times = entries.map((e) => new Date(e.timestamp).getTime());
+  return Math.max(...times) - Math.min(...times);
+}
+
+/**
+ * Diagnose one build from its logs, optionally against the last successful build.
+ */
+export function analyzeBuildLogs(
+  deployment: { id: string; status?: string },
+  entries: LogEntry[],
+  baseline?: { deploymentId: string; entries: LogEntry[] }
+): BuildReport {
+  const sorted = [...entries].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const stages = splitBuildStages(sorted);
+  const report: BuildReport = {
+    deploymentId: deployment.id,
+    status: deployment.status,
+    builder: detectBuilder(sorted),
+    stages,
+    totalDurationMs: totalDuration(sorted),
+    failure: findBuildFailure(sorted, stages),
+  };
+
+  if (baseline && baseline.entries.length > 0) {
+    const baselineSorted = [...baseline.entries].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    report.baseline = { deploymentId: baseline.deploymentId, totalDurationMs: totalDuration(baselineSorted) };
+    report.comparison = compareBuildStages(stages, splitBuildStages(baselineSorted));
+  }
+  return report;
+}
+
+/**
+ * The most recent deployment created before `deployment` whose build
+ * succeeded (it went on to serve traffic).
+ */
+export function lastSuccessfulBuild(
+  deployment: DeploymentNode,
+  history: DeploymentNode[]
+): DeploymentNode | undefined {
+  const createdMs = new Date(deployment.createdAt).getTime();
+  return history
+    .filter((d) => d.id !== deployment.id && hasServed(d) && new Date(d.createdAt).getTime() < createdMs)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+}
+
+/**
+ * Fetch a deployment's build logs and diagnose them, comparing with the last
+ * successful build of the same service.
+ */
+export async function collectBuildReport(options: {
+  projectId: string;
+  environmentId: string;
+  serviceId: string;
+  deploymentId: string;
+  lines?: number;
+  redactor?: Redactor;
+}): Promise<BuildReport> {
+  const { projectId, environmentId, serviceId, deploymentId, lines = 5000, redactor } = options;
+
+  // Page back until the deployment and an older successful build are both found
+  const history = await pageDeployments(projectId, environmentId, serviceId, (fetched) => {
+    const target = fetched.find((d) => d.id === deploymentId);
+    return target !== undefined && lastSuccessfulBuild(target, fetched) !== undefined;
+  });
+  const target = history.find((d) => d.id === deploymentId);
+  if (!target) {
+    throw new Error(`Deployment ${deploymentId} was not found in this service's recent deployments.`);
+  }
+
+  return diagnoseBuild(target, history, { lines, redactor });
+}
+
+/**
+ * Diagnose a deployment's build against the last successful build in
+ * `history`. Pass `entries` when its build logs were already fetched.
+ */
+export async function diagnoseBuild(
+  deployment: DeploymentNode,
+  history: DeploymentNode[],
+  options: { entries?: LogEntry[]; lines?: number; redactor?: Redactor } = {}
+): Promise<BuildReport> {
+  const { lines = 5000, redactor } = options;
+  const redact = (entries: LogEntry[]) => (redactor ? entries.map((e) => redactor.redactEntry(e)) : entries);
+
+  const entries = options.entries ?? (await fetchLogBatch(deployment.id, "build", lines)).entries;
+  const previous = lastSuccessfulBuild(deployment, history);
+  const baseline = previous
+    ? { deploymentId: previous.id, entries: redact((await fetchLogBatch(previous.id, "build", lines)).entries) }
+    : undefined;
+
+  return analyzeBuildLogs(deployment, redact(entries), baseline);
+}
+
+export function formatBuildDuration(ms: number): string {
+  return ms >= 60_000 ? `${(ms / 60_000).toFixed(1)}m` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * "compile failure in RUN npm run build: error TS2304: Cannot find name 'foo'".
+ */
+export function describeBuildFailure(failure: BuildFailure): string {
+  return `${failure.category} failure${failure.stage ? ` in ${failure.stage}` : ""}: ${failure.message}`;
+}
+
+/**
+ * "RUN npm ci (install): 48.2s vs 12.1s in the last successful build".
+ */
+export function describeStageComparison(c: BuildStageComparison): string {
+  const baseline =
+    c.baselineMs !== undefined
+      ? ` vs ${formatBuildDuration(c.baselineMs)} in the last successful build`
+      : " (not in the last successful build)";
+  return `${c.name} (${c.kind}): ${formatBuildDuration(c.durationMs)}${baseline}`;
+}
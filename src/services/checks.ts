@@ -0,0 +1,374 @@
+import { readFileSync } from "fs";
+import { parse as parseYaml } from "yaml";
+import type {
+  CheckResult,
+  CheckRuleDefinition,
+  CheckStatus,
+  ServiceHealthReport,
+  SloReport,
+} from "../types/railway.js";
+import { isErrorEntry } from "./severity.js";
+
+/**
+ * Alert rules for `check`: conditions over a ServiceHealthReport that give
+ * pass, warn or fail, so a pipeline can gate on them.
+ *
+ * Each condition is `<value> <op> <literal>`:
+ *
+ *   http.latency.p99.max < 1500    dotted path into the report (`metrics.`
+ *                                  may be left out); array items by index
+ *   5xx ratio < 1%                 named value, see NAMED_VALUES
+ *   slo checkout budget > 25%      SLO values by name: budget, sli, status,
+ *                                  burn <lookback>
+ *   healthScore.status == "healthy"
+ *
+ * Operators are < <= > >= == !=. Literals are numbers, quoted strings or
+ * true/false. A number may carry a unit: % divides by 100 (ratios are
+ * fractions), and s, m, h convert to milliseconds (latencies are in ms).
+ */
+
+export type CheckOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+type CheckValue = number | string | boolean;
+
+export interface CheckExpression {
+  text: string;
+  /** Left-hand side as written */
+  subject: string;
+  op: CheckOperator;
+  expected: CheckValue;
+  /** Unit the literal was written in, used to show the actual value the same way */
+  unit?: string;
+  resolve(report: ServiceHealthReport): CheckValue | undefined;
+}
+
+export interface CompiledCheck {
+  rule: CheckRuleDefinition;
+  assert: CheckExpression;
+  warn?: CheckExpression;
+  /** The rule reads SLO results, which are only evaluated when some rule needs them */
+  usesSlos: boolean;
+}
+
+export class CheckRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckRuleError";
+  }
+}
+
+const OPERATOR = /^(.+?)\s*(<=|>=|==|!=|<|>)\s*(.+)$/;
+const NUMBER_LITERAL = /^(-?\d+(?:\.\d+)?)\s*(%|ms|s|m|h)?$/;
+const UNIT_SCALE: Record<string, number> = {
+  "%": 0.01,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+const CHECK_STATUSES: CheckStatus[] = ["pass", "warn", "fail"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function statusShare(report: ServiceHealthReport, bucket: string): number | undefined {
+  const http = report.metrics.http;
+  if (!http || http.totalRequests === 0) return undefined;
+  return (http.statusCodes.find((b) => b.bucket === bucket)?.count ?? 0) / http.totalRequests;
+}
+
+const NAMED_VALUES: Record<string, (report: ServiceHealthReport) => CheckValue | undefined> = {
+  "5xx ratio": (r) => statusShare(r, "5xx"),
+  "4xx ratio": (r) => statusShare(r, "4xx"),
+  requests: (r) => r.metrics.http?.totalRequests,
+  "error logs": (r) => r.logs.filter(isErrorEntry).length,
+  "error logs per hour": (r) => {
+    const hours = (new Date(r.period.end).getTime() - new Date(r.period.start).getTime()) / HOUR_MS;
+    return hours > 0 ? r.logs.filter(isErrorEntry).length / hours : undefined;
+  },
+  "cpu of limit": (r) => (r.metrics.utilization?.cpu ? r.metrics.utilization.cpu.p95Percent / 100 : undefined),
+  "memory of limit": (r) => (r.metrics.utilization?.memory ? r.metrics.utilization.memory.p95Percent / 100 : undefined),
+  "failed deployments": (r) => r.deployments.filter((d) => d.status === "FAILED" || d.status === "CRASHED").length,
+  "regressed deployments": (r) => r.deployDiffs?.filter((d) => d.verdict === "regressed").length ?? 0,
+  "anomalous windows": (r) => r.timeline?.filter((w) => w.isAnomaly).length,
+  "health score": (r) => r.healthScore?.score,
+};
+
+const SLO_VALUE = /^slo\s+(\S+)\s+(budget|sli|status|burn\s+(\d+[mhd]))$/;
+
+function sloValue(slo: SloReport, field: string, lookback?: string): CheckValue | undefined {
+  if (field === "status") return slo.status;
+  if (slo.sli === undefined) return undefined;
+  if (field === "budget") return slo.errorBudget.remainingPercent / 100;
+  if (field === "sli") return slo.sli / 100;
+  return slo.burnRates.find((b) => b.lookback === lookback)?.rate;
+}
+
+function resolvePath(report: ServiceHealthReport, path: string): CheckValue | undefined {
+  const segments = path.split(".");
+  const root = segments[0] in report ? (report as unknown as Record<string, unknown>) : report.metrics;
+  let value: unknown = root;
+  for (const segment of segments) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return typeof value === "number" || typeof value === "string" || typeof value === "boolean" ? value : undefined;
+}
+
+function compileSubject(subject: string): { resolve: CheckExpression["resolve"]; usesSlos: boolean } {
+  const named = NAMED_VALUES[subject.toLowerCase()];
+  if (named) return { resolve: named, usesSlos: false };
+
+  const slo = subject.match(SLO_VALUE);
+  if (slo) {
+    const [, name, field, lookback] = slo;
+    return {
+      resolve: (report) => {
+        const match = report.slos?.find((r) => r.definition.name === name);
+        return match ? sloValue(match, field.split(/\s+/)[0], lookback) : undefined;
+      },
+      usesSlos: true,
+    };
+  }
+
+  if (!/^[A-Za-z_]\w*(\.\w+)*$/.test(subject)) {
+    throw new CheckRuleError(
+      `Unknown value "${subject}". Use a dotted report path, "slo <name> budget", or one of: ${Object.keys(NAMED_VALUES).join(", ")}.`
+    );
+  }
+  return { resolve: (report) => resolvePath(report, subject), usesSlos: subject.split(".")[0] === "slos" };
+}
+
+function parseLiteral(text: string): { expected: CheckValue; unit?: string } {
+  if (text === "true" || text === "false") return { expected: text === "true" };
+  const quoted = text.match(/^"(.*)"$|^'(.*)'$/);
+  if (quoted) return { expected: quoted[1] ?? quoted[2] };
+  const number = text.match(NUMBER_LITERAL);
+  if (!number) {
+    throw new CheckRuleError(`Invalid value "${text}": expected a number (optionally with %, ms, s, m or h), a quoted string, or true/false.`);
+  }
+  const unit = number[2];
+  return { expected: parseFloat(number[1]) * (unit ? UNIT_SCALE[unit] : 1), unit };
+}
+
+/**
+ * Compile a condition such as "5xx ratio < 1%".
+ */
+export function compileCheckExpression(text: string): CheckExpression & { usesSlos: boolean } {
+  const match = text.trim().match(OPERATOR);
+  if (!match) {
+    throw new CheckRuleError(`Invalid condition "${text}": expected "<value> <op> <literal>" with one of < <= > >= == !=.`);
+  }
+  const [, subject, op, literal] = match;
+  const { expected, unit } = parseLiteral(literal.trim());
+  if (typeof expected !== "number" && op !== "==" && op !== "!=") {
+    throw new CheckRuleError(`Invalid condition "${text}": only == and != compare strings and booleans.`);
+  }
+  const { resolve, usesSlos } = compileSubject(subject.trim());
+  return { text: text.trim(), subject: subject.trim(), op: op as CheckOperator, expected, unit, resolve, usesSlos };
+}
+
+function compileRule(raw: unknown, where: string): CompiledCheck {
+  // A bare string is a rule named after its condition
+  const fields: Record<string, unknown> =
+    typeof raw === "string" ? { name: raw, expr: raw } : raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (typeof fields.expr !== "string") throw new CheckRuleError(`${where}.expr must be a condition string`);
+  if (fields.name !== undefined && typeof fields.name !== "string") throw new CheckRuleError(`${where}.name must be a string`);
+  if (fields.warn !== undefined && typeof fields.warn !== "string") throw new CheckRuleError(`${where}.warn must be a condition string`);
+  if (fields.severity !== undefined && fields.severity !== "warn" && fields.severity !== "fail") {
+    throw new CheckRuleError(`${where}.severity must be warn or fail`);
+  }
+  if (fields.missing !== undefined && !CHECK_STATUSES.includes(fields.missing as CheckStatus)) {
+    throw new CheckRuleError(`${where}.missing must be one of ${CHECK_STATUSES.join(", ")}`);
+  }
+
+  const rule: CheckRuleDefinition = {
+    name: (fields.name as string | undefined) ?? fields.expr,
+    expr: fields.expr,
+    warn: fields.warn as string | undefined,
+    severity: fields.severity as CheckRuleDefinition["severity"],
+    missing: fields.missing as CheckStatus | undefined,
+    description: typeof fields.description === "string" ? fields.description : undefined,
+  };
+  try {
+    const assert = compileCheckExpression(rule.expr);
+    const warn = rule.warn ? compileCheckExpression(rule.warn) : undefined;
+    return { rule, assert, warn, usesSlos: assert.usesSlos || Boolean(warn?.usesSlos) };
+  } catch (err) {
+    throw new CheckRuleError(`${where} (${rule.name}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Parse a rule file: YAML or JSON, either a list of rules or `{ rules: [...] }`.
+ */
+export function parseCheckRules(path: string, contents: string): CompiledCheck[] {
+  try {
+    let parsed: unknown;
+    try {
+      parsed = parseYaml(contents);
+    } catch (err) {
+      throw new CheckRuleError(err instanceof Error ? err.message : String(err));
+    }
+    const rules = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown } | null)?.rules;
+    if (!Array.isArray(rules) || rules.length === 0) {
+      throw new CheckRuleError("expected a non-empty list of rules, or an object with a `rules` list");
+    }
+    const checks = rules.map((raw, i) => compileRule(raw, `rules[${i}]`));
+    const names = new Set<string>();
+    for (const check of checks) {
+      if (names.has(check.rule.name)) throw new CheckRuleError(`duplicate rule name "${check.rule.name}"`);
+      names.add(check.rule.name);
+    }
+    return checks;
+  } catch (err) {
+    if (err instanceof CheckRuleError) throw new CheckRuleError(`Invalid rule file ${path}: ${err.message}`);
+    throw err;
+  }
+}
+
+export function loadCheckRules(path: string): CompiledCheck[] {
+  let contents: string;
+  try {
+    contents = readFileSync(path, "utf-8");
+  } catch {
+    throw new CheckRuleError(`Rule file not found: ${path}`);
+  }
+  return parseCheckRules(path, contents);
+}
+
+function compare(actual: CheckValue, op: CheckOperator, expected: CheckValue): boolean | undefined {
+  if (op === "==") return actual === expected;
+  if (op === "!=") return actual !== expected;
+  if (typeof actual !== "number" || typeof expected !== "number") return undefined;
+  if (op === "<") return actual < expected;
+  if (op === "<=") return actual <= expected;
+  if (op === ">") return actual > expected;
+  return actual >= expected;
+}
+
+/**
+ * A value in the unit its condition was written in: "2.31%" for "< 1%".
+ */
+function formatCheckValue(value: CheckValue, unit?: string): string {
+  if (typeof value !== "number") return JSON.stringify(value);
+  if (!unit) return `${+value.toFixed(3)}`;
+  const scaled = value / UNIT_SCALE[unit];
+  return `${+scaled.toFixed(unit === "%" ? 2 : 1)}${unit}`;
+}
+
+function formatLiteral(e: CheckExpression): string {
+  return formatCheckValue(e.expected, e.unit);
+}
+
+export function evaluateCheck(check: CompiledCheck, report: ServiceHealthReport): CheckResult {
+  const { rule, assert, warn } = check;
+  const actual = assert.resolve(report);
+  const base = { name: rule.name, expr: rule.expr };
+
+  // A gate that can't see its value must not pass quietly, so missing data fails unless the rule says otherwise
+  if (actual === undefined) {
+    return { ...base, status: rule.missing ?? "fail", message: `No value for ${assert.subject} in the report` };
+  }
+  const shown = `${assert.subject} = ${formatCheckValue(actual, assert.unit)}`;
+
+  const held = compare(actual, assert.op, assert.expected);
+  if (held === undefined) {
+    return { ...base, status: "fail", actual, message: `${shown} is not a number, so it can't be compared with ${assert.op}` };
+  }
+  if (!held) {
+    return {
+      ...base,
+      status: rule.severity ?? "fail",
+      actual,
+      message: `${shown}, expected ${assert.op} ${formatLiteral(assert)}`,
+    };
+  }
+
+  // The warning condition gets the same treatment: no value or no comparison is not a pass
+  if (warn) {
+    const warnActual = warn.resolve(report);
+    if (warnActual === undefined) {
+      return {
+        ...base,
+        status: rule.missing ?? "fail",
+        actual,
+        message: `${shown}, but no value for ${warn.subject} in the report`,
+      };
+    }
+    const warnShown = `${warn.subject} = ${formatCheckValue(warnActual, warn.unit)}`;
+    const warnHeld = compare(warnActual, warn.op, warn.expected);
+    if (warnHeld === undefined) {
+      return {
+        ...base,
+        status: "fail",
+        actual,
+        message: `${warnShown} is not a number, so it can't be compared with ${warn.op}`,
+      };
+    }
+    if (!warnHeld) {
+      return {
+        ...base,
+        status: "warn",
+        actual,
+        message: `${warnShown}, warning when not ${warn.op} ${formatLiteral(warn)}`,
+      };
+    }
+  }
+  return { ...base, status: "pass", actual, message: `${shown} (${assert.op} ${formatLiteral(assert)})` };
+}
+
+export function evaluateChecks(checks: CompiledCheck[], report: ServiceHealthReport): CheckResult[] {
+  return checks.map((check) => evaluateCheck(check, report));
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * JUnit XML with one test case per rule. Failures are <failure>; warnings
+ * pass, with the warning in <system-out>, since JUnit has no warning state.
+ */
+export function formatJUnit(results: CheckResult[], report: ServiceHealthReport, durationMs: number): string {
+  const failures = results.filter((r) => r.status === "fail").length;
+  const suite = `railway-metrics check: ${report.service.name}`;
+  const classname = `railway-metrics.${report.service.name}`;
+
+  const cases = results.map((r) => {
+    const open = `    <testcase name="${escapeXml(r.name)}" classname="${escapeXml(classname)}" time="0">`;
+    if (r.status === "fail") {
+      return `${open}\n      <failure message="${escapeXml(r.message)}" type="fail">${escapeXml(`${r.expr}\n${r.message}`)}</failure>\n    </testcase>`;
+    }
+    if (r.status === "warn") {
+      return `${open}\n      <system-out>${escapeXml(`WARN: ${r.message}`)}</system-out>\n    </testcase>`;
+    }
+    return `${open}</testcase>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="railway-metrics" tests="${results.length}" failures="${failures}" errors="0" time="${(durationMs / 1000).toFixed(3)}">`,
+    `  <testsuite name="${escapeXml(suite)}" tests="${results.length}" failures="${failures}" errors="0" skipped="0" timestamp="${report.period.end}" time="${(durationMs / 1000).toFixed(3)}">`,
+    `    <properties>`,
+    `      <property name="serviceId" value="${escapeXml(report.service.id)}"/>`,
+    `      <property name="environment" value="${escapeXml(report.service.environment)}"/>`,
+    `      <property name="period" value="${escapeXml(`${report.period.start}/${report.period.end}`)}"/>`,
+    `    </properties>`,
+    ...cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * "[FAIL] p99 under 1.5s: http.latency.p99.max = 1830, expected < 1500".
+ */
+export function describeCheckResult(r: CheckResult): string {
+  return `[${r.status.toUpperCase()}] ${r.name}: ${r.message}`;
+}
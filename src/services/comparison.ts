@@ -0,0 +1,312 @@
+import type {
+  AlignedTimelineRow,
+  HttpDurationSample,
+  LogPattern,
+  PatternDelta,
+  PeriodComparison,
+  ServiceHealthReport,
+  SignalDelta,
+  SignificanceTest,
+  TimelineSignals,
+  TimelineWindow,
+} from "../types/railway.js";
+import { mannWhitneyP, mean, twoSidedP } from "../utils/stats.js";
+import { isErrorEntry } from "./severity.js";
+import { clusterLogPatterns } from "./log-patterns.js";
+
+/**
+ * Period-over-period comparison for `analyze --compare`: per-signal deltas
+ * between the analysis period and a baseline period, each marked significant
+ * when a test rejects "no change" at p < 0.05.
+ *
+ * Series (CPU, memory, latency percentiles) are compared with a Mann–Whitney
+ * U test on their samples, the 5xx rate with a two-proportion z-test, and
+ * event rates (requests, error logs, error patterns) with a Poisson rate test
+ * that accounts for the two periods' lengths.
+ */
+
+const SIGNIFICANCE_LEVEL = 0.05;
+// Pattern deltas kept in the report
+const MAX_PATTERN_DELTAS = 15;
+// Fewer events than this across both periods are never called significant
+const MIN_EVENTS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function periodHours(period: { start: string; end: string }): number {
+  return (new Date(period.end).getTime() - new Date(period.start).getTime()) / HOUR_MS;
+}
+
+export function signalDelta(
+  signal: string,
+  unit: string,
+  baseline: number,
+  current: number,
+  test: SignificanceTest | undefined,
+  pValue: number | undefined
+): SignalDelta {
+  return {
+    signal,
+    unit,
+    baseline,
+    current,
+    change: current - baseline,
+    changePercent: baseline !== 0 ? ((current - baseline) / baseline) * 100 : undefined,
+    test: pValue !== undefined ? test : undefined,
+    pValue,
+    significant: pValue !== undefined && pValue < SIGNIFICANCE_LEVEL,
+  };
+}
+
+/**
+ * Poisson rate test: given n = a + b events, a is binomial with the share of
+ * the total observation time that period a covers.
+ */
+export function poissonRateP(a: number, hoursA: number, b: number, hoursB: number): number | undefined {
+  const n = a + b;
+  if (n < MIN_EVENTS || hoursA <= 0 || hoursB <= 0) return undefined;
+  const share = hoursA / (hoursA + hoursB);
+  const z = (a - n * share) / Math.sqrt(n * share * (1 - share));
+  return twoSidedP(z);
+}
+
+export function twoProportionP(x1: number, n1: number, x2: number, n2: number): number | undefined {
+  if (n1 === 0 || n2 === 0 || x1 + x2 < MIN_EVENTS) return undefined;
+  const pooled = (x1 + x2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return undefined;
+  return twoSidedP((x1 / n1 - x2 / n2) / se);
+}
+
+function count5xx(report: ServiceHealthReport): number {
+  return report.metrics.http?.statusCodes.find((b) => b.bucket === "5xx")?.count ?? 0;
+}
+
+export function seriesDelta(signal: string, unit: string, current: number[], baseline: number[]): SignalDelta {
+  return signalDelta(signal, unit, mean(baseline), mean(current), "mann-whitney", mannWhitneyP(current, baseline));
+}
+
+function latencyDeltas(current: ServiceHealthReport, baseline: ServiceHealthReport): SignalDelta[] {
+  const a = current.metrics.http;
+  const b = baseline.metrics.http;
+  if (!a || !b) return [];
+  const percentiles: Array<keyof Pick<HttpDurationSample, "p50" | "p95" | "p99">> = ["p50", "p95", "p99"];
+  return percentiles.map((p) =>
+    seriesDelta(p, "ms", a.latencySamples.map((s) => s[p]), b.latencySamples.map((s) => s[p]))
+  );
+}
+
+/**
+ * Error patterns of both periods matched by template, as hourly rates.
+ */
+function comparePatterns(
+  current: ServiceHealthReport,
+  baseline: ServiceHealthReport,
+  hoursCurrent: number,
+  hoursBaseline: number
+): PatternDelta[] {
+  const errorPatterns = (report: ServiceHealthReport): Map<string, LogPattern> =>
+    new Map(clusterLogPatterns(report.logs.filter(isErrorEntry)).map((p) => [p.template, p]));
+  const now = errorPatterns(current);
+  const before = errorPatterns(baseline);
+
+  const deltas: PatternDelta[] = [];
+  for (const template of new Set([...now.keys(), ...before.keys()])) {
+    const a = now.get(template)?.count ?? 0;
+    const b = before.get(template)?.count ?? 0;
+    const currentPerHour = a / hoursCurrent;
+    const baselinePerHour = b / hoursBaseline;
+    const pValue = poissonRateP(a, hoursCurrent, b, hoursBaseline);
+    const significant = pValue !== undefined && pValue < SIGNIFICANCE_LEVEL;
+    const change: PatternDelta["change"] =
+      b === 0 ? "new" : a === 0 ? "gone" : !significant ? "unchanged" : currentPerHour > baselinePerHour ? "increased" : "decreased";
+    deltas.push({ template, baselinePerHour, currentPerHour, change, pValue, significant });
+  }
+
+  return deltas
+    .filter((d) => d.change !== "unchanged")
+    .sort(
+      (x, y) =>
+        Number(y.significant) - Number(x.significant) ||
+        Math.abs(y.currentPerHour - y.baselinePerHour) - Math.abs(x.currentPerHour - x.baselinePerHour)
+    )
+    .slice(0, MAX_PATTERN_DELTAS);
+}
+
+function timelineSignals(w: TimelineWindow): TimelineSignals {
+  return {
+    cpu: w.cpu,
+    memoryMb: w.memoryMb,
+    p99: w.p99,
+    requests: w.requests,
+    errors5xx: w.errors5xx,
+    errorLogs: w.errorLogs,
+  };
+}
+
+/**
+ * Line the two timelines up by offset from the start of their period: each
+ * current window is paired with the baseline window covering its start offset.
+ */
+export function alignTimelines(
+  current: TimelineWindow[],
+  currentStart: string,
+  baseline: TimelineWindow[],
+  baselineStart: string
+): AlignedTimelineRow[] {
+  const currentStartMs = new Date(currentStart).getTime();
+  const baselineStartMs = new Date(baselineStart).getTime();
+  return current.map((w) => {
+    const offsetMs = new Date(w.start).getTime() - currentStartMs;
+    const match = baseline.find((b) => {
+      const from = new Date(b.start).getTime() - baselineStartMs;
+      const to = new Date(b.end).getTime() - baselineStartMs;
+      return offsetMs >= from && offsetMs < to;
+    });
+    return { offsetMs, current: timelineSignals(w), baseline: match ? timelineSignals(match) : undefined };
+  });
+}
+
+export function comparePeriods(
+  spec: string,
+  current: ServiceHealthReport,
+  baseline: ServiceHealthReport
+): PeriodComparison {
+  const hoursCurrent = periodHours(current.period);
+  const hoursBaseline = periodHours(baseline.period);
+
+  const deltas: SignalDelta[] = [
+    seriesDelta(
+      "cpu",
+      "cores",
+      current.metrics.cpu.values.map((v) => v.value),
+      baseline.metrics.cpu.values.map((v) => v.value)
+    ),
+    seriesDelta(
+      "memoryMb",
+      "MB",
+      current.metrics.memory.values.map((v) => v.value * 1024),
+      baseline.metrics.memory.values.map((v) => v.value * 1024)
+    ),
+    ...latencyDeltas(current, baseline),
+  ];
+
+  const httpNow = current.metrics.http;
+  const httpBefore = baseline.metrics.http;
+  if (httpNow && httpBefore) {
+    deltas.push(
+      signalDelta(
+        "requestsPerHour",
+        "req/h",
+        httpBefore.totalRequests / hoursBaseline,
+        httpNow.totalRequests / hoursCurrent,
+        "poisson-rate",
+        poissonRateP(httpNow.totalRequests, hoursCurrent, httpBefore.totalRequests, hoursBaseline)
+      )
+    );
+    const x1 = count5xx(current);
+    const x2 = count5xx(baseline);
+    deltas.push(
+      signalDelta(
+        "errorRate5xx",
+        "%",
+        httpBefore.totalRequests > 0 ? (x2 / httpBefore.totalRequests) * 100 : 0,
+        httpNow.totalRequests > 0 ? (x1 / httpNow.totalRequests) * 100 : 0,
+        "two-proportion",
+        twoProportionP(x1, httpNow.totalRequests, x2, httpBefore.totalRequests)
+      )
+    );
+  }
+
+  const errorsNow = current.logs.filter(isErrorEntry).length;
+  const errorsBefore = baseline.logs.filter(isErrorEntry).length;
+  deltas.push(
+    signalDelta(
+      "errorLogsPerHour",
+      "entries/h",
+      errorsBefore / hoursBaseline,
+      errorsNow / hoursCurrent,
+      "poisson-rate",
+      poissonRateP(errorsNow, hoursCurrent, errorsBefore, hoursBaseline)
+    )
+  );
+
+  const warnings = [...(baseline.warnings ?? [])];
+  // Log counts are capped by --lines; a truncated fetch makes rates look lower than they were
+  const truncated = (report: ServiceHealthReport) => (report.logCoverage ?? []).some((c) => c.truncated);
+  if (truncated(current) || truncated(baseline)) {
+    warnings.push("Log fetches hit the --lines limit, so error log and pattern rates are lower bounds.");
+  }
+
+  return {
+    spec,
+    baseline: { start: baseline.period.start, end: baseline.period.end },
+    deltas,
+    patterns: comparePatterns(current, baseline, hoursCurrent, hoursBaseline),
+    timeline:
+      current.timeline && baseline.timeline
+        ? alignTimelines(current.timeline, current.period.start, baseline.timeline, baseline.period.start)
+        : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+const SIGNAL_LABELS: Record<string, string> = {
+  cpu: "CPU avg",
+  memoryMb: "Memory avg",
+  p50: "p50 latency",
+  p95: "p95 latency",
+  p99: "p99 latency",
+  requestsPerHour: "Requests",
+  errorRate5xx: "5xx rate",
+  errorLogsPerHour: "Error logs",
+};
+
+export function signalLabel(signal: string): string {
+  return SIGNAL_LABELS[signal] ?? signal;
+}
+
+export function formatDeltaValue(value: number, unit: string): string {
+  const digits = unit === "cores" ? 3 : unit === "%" ? 2 : Math.abs(value) < 10 ? 1 : 0;
+  return `${value.toFixed(digits)}${unit === "%" ? "%" : ` ${unit}`}`;
+}
+
+/**
+ * "+38.2%" or "+1.204 cores" when the baseline was 0.
+ */
+export function formatChange(d: SignalDelta): string {
+  if (d.changePercent !== undefined) {
+    return `${d.changePercent >= 0 ? "+" : ""}${d.changePercent.toFixed(1)}%`;
+  }
+  return `${d.change >= 0 ? "+" : ""}${formatDeltaValue(d.change, d.unit)}`;
+}
+
+export function formatPValue(p: number): string {
+  return p < 0.001 ? "p<0.001" : `p=${p.toFixed(3)}`;
+}
+
+/**
+ * "p99 latency: 420 ms → 610 ms (+45.2%, significant, p=0.003)".
+ */
+export function describeSignalDelta(d: SignalDelta): string {
+  const significance =
+    d.pValue === undefined ? "not tested" : `${d.significant ? "significant" : "not significant"}, ${formatPValue(d.pValue)}`;
+  return `${signalLabel(d.signal)}: ${formatDeltaValue(d.baseline, d.unit)} → ${formatDeltaValue(d.current, d.unit)} (${formatChange(d)}, ${significance})`;
+}
+
+/**
+ * "[new] 0.0/h → 12.5/h: Connection refused <IP>:<NUM>".
+ */
+export function describePatternDelta(p: PatternDelta): string {
+  return `[${p.change}${p.significant && p.change !== "new" && p.change !== "gone" ? ", significant" : ""}] ${p.baselinePerHour.toFixed(1)}/h → ${p.currentPerHour.toFixed(1)}/h: ${p.template}`;
+}
+
+/** Offset from the period start, e.g. "+2h 15m" */
+export function formatOffset(offsetMs: number): string {
+  const minutes = Math.round(offsetMs / 60000);
+  const hours = Math.floor(minutes / 60);
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes % 60 > 0 || hours === 0) parts.push(`${minutes % 60}m`);
+  return `+${parts.join(" ")}`;
+}
@@ -0,0 +1,366 @@
+import type {
+  DeployDiff,
+  DeployVerdict,
+  DeploymentNode,
+  HttpMetrics,
+  LogBatch,
+  LogCoverage,
+  LogEntry,
+  LogPattern,
+  MetricValue,
+  SignalDelta,
+} from "../types/railway.js";
+import { fetchAllMetrics, fetchHttpMetrics, fetchLogBatch, pageDeployments } from "./railway-client.js";
+import { assignActiveIntervals, hasServed, wasActiveDuring } from "./deployments.js";
+import { mergeMetricSeries } from "./replicas.js";
+import { summarizeHttpMetrics } from "./summarize.js";
+import { mergeLogBatches } from "./log-merge.js";
+import type { Redactor } from "./redaction.js";
+import { clusterLogPatterns } from "./log-patterns.js";
+import { isErrorEntry } from "./severity.js";
+import { describeSignalDelta, poissonRateP, seriesDelta, signalDelta, twoProportionP } from "./comparison.js";
+import { describeError } from "./errors.js";
+import { calculateSampleRate, now } from "../utils/time.js";
+
+/**
+ * "Did this deploy make things worse?": compare latency, 5xx rate, error
+ * logs, CPU and memory in the minutes before and after each cutover, list
+ * log patterns that only appear afterwards, and reach a verdict.
+ *
+ * A signal counts toward the verdict only when its change is significant
+ * (p < 0.05, see comparison.ts) and large enough to matter: 10% for latency
+ * and errors, 25% for CPU and memory, which often move on restart alone.
+ *
+ * Log fetches keep only the newest lines up to their limit, so a truncated
+ * fetch thins the before range and not the after one. When a fetch covering
+ * the compared ranges was cut off after they start, the error log rate and new
+ * patterns are left out rather than read as an improvement.
+ */
+
+export interface DeploySignals {
+  cpu: MetricValue[];
+  memory: MetricValue[];
+  http?: HttpMetrics;
+  logs: LogEntry[];
+  /** Per-batch coverage of `logs`, to tell when the line limit cut them off */
+  logCoverage?: LogCoverage[];
+}
+
+export const DEFAULT_DEPLOY_WINDOW_MS = 15 * 60 * 1000;
+
+// Smallest relative change that counts, per signal
+const MIN_EFFECT: Record<string, number> = {
+  p50: 0.1,
+  p99: 0.1,
+  errorRate5xx: 0.1,
+  errorLogsPerHour: 0.1,
+  cpu: 0.25,
+  memoryMb: 0.25,
+};
+
+// A new error pattern this frequent after the cutover is a regression on its own
+const MIN_NEW_ERROR_PATTERN_COUNT = 3;
+const MAX_NEW_PATTERNS = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Deployments that went live inside [startDate, endDate], oldest first.
+ */
+export function deploymentsLiveIn(deployments: DeploymentNode[], startDate: string, endDate: string): DeploymentNode[] {
+  const startMs = new Date(startDate).getTime();
+  const endMs = new Date(endDate).getTime();
+  return deployments
+    .filter((d) => {
+      if (!d.activeFrom) return false;
+      const t = new Date(d.activeFrom).getTime();
+      return t > startMs && t < endMs;
+    })
+    .sort((a, b) => new Date(a.activeFrom!).getTime() - new Date(b.activeFrom!).getTime());
+}
+
+function inRange(tsSec: number, fromMs: number, toMs: number): boolean {
+  const ms = tsSec * 1000;
+  return ms >= fromMs && ms < toMs;
+}
+
+function sumStatusCodes(http: HttpMetrics, fromMs: number, toMs: number): { total: number; errors: number } {
+  let total = 0;
+  let errors = 0;
+  for (const s of http.statusCodeSamples) {
+    if (!inRange(s.ts, fromMs, toMs)) continue;
+    total += s.count;
+    if (s.statusCode >= 500 && s.statusCode < 600) errors += s.count;
+  }
+  return { total, errors };
+}
+
+/**
+ * Effect size check: relative change, or any change when the baseline was 0.
+ */
+function isMaterial(d: SignalDelta): boolean {
+  const minEffect = MIN_EFFECT[d.signal] ?? 0.1;
+  return d.changePercent === undefined ? d.change !== 0 : Math.abs(d.changePercent) / 100 >= minEffect;
+}
+
+function newPatternsAfter(before: LogEntry[], after: LogEntry[]): LogPattern[] {
+  const known = new Set(clusterLogPatterns(before).map((p) => p.template));
+  const errorCount = (p: LogPattern) => (p.severities.error ?? 0) + (p.severities.fatal ?? 0);
+  return clusterLogPatterns(after)
+    .filter((p) => !known.has(p.template))
+    .sort((a, b) => errorCount(b) - errorCount(a) || b.count - a.count)
+    .slice(0, MAX_NEW_PATTERNS);
+}
+
+/**
+ * Truncated log fetches for deployments serving in [fromMs, toMs) whose oldest
+ * entry is later than `fromMs`: lines they lost fall inside the range.
+ */
+function logsCutOffIn(
+  coverage: LogCoverage[],
+  deployments: DeploymentNode[],
+  fromMs: number,
+  toMs: number
+): LogCoverage[] {
+  const from = new Date(fromMs).toISOString();
+  const to = new Date(toMs).toISOString();
+  return coverage.filter((c) => {
+    if (!c.truncated || c.source === "build" || !c.oldest) return false;
+    if (new Date(c.oldest).getTime() <= fromMs) return false;
+    const deployment = deployments.find((d) => d.id === c.deploymentId);
+    return !deployment || wasActiveDuring(deployment, from, to);
+  });
+}
+
+/**
+ * Compare the signals either side of a deployment's cutover. `deployments`
+ * must carry active intervals (see assignActiveIntervals); the ranges stop at
+ * the neighbouring cutovers and at `bounds`, the period the signals cover.
+ */
+export function diffDeployment(
+  deployment: DeploymentNode,
+  deployments: DeploymentNode[],
+  signals: DeploySignals,
+  windowMs: number = DEFAULT_DEPLOY_WINDOW_MS,
+  bounds?: { start: string; end: string }
+): DeployDiff {
+  if (!deployment.activeFrom) {
+    throw new Error(`Deployment ${deployment.id} never served traffic (status ${deployment.status}); there is no cutover to compare.`);
+  }
+  const cutoverMs = new Date(deployment.activeFrom).getTime();
+  const previous = deployments.find((d) => d.id !== deployment.id && d.activeTo === deployment.activeFrom);
+
+  let beforeMs = cutoverMs - windowMs;
+  let afterMs = cutoverMs + windowMs;
+  if (previous?.activeFrom) beforeMs = Math.max(beforeMs, new Date(previous.activeFrom).getTime());
+  if (deployment.activeTo) afterMs = Math.min(afterMs, new Date(deployment.activeTo).getTime());
+  if (bounds) {
+    beforeMs = Math.max(beforeMs, new Date(bounds.start).getTime());
+    afterMs = Math.min(afterMs, new Date(bounds.end).getTime());
+  }
+  const hoursBefore = (cutoverMs - beforeMs) / HOUR_MS;
+  const hoursAfter = (afterMs - cutoverMs) / HOUR_MS;
+
+  const values = (series: MetricValue[], fromMs: number, toMs: number, scale = 1) =>
+    series.filter((v) => inRange(v.ts, fromMs, toMs)).map((v) => v.value * scale);
+
+  const deltas: SignalDelta[] = [];
+  const http = signals.http;
+  if (http) {
+    for (const p of ["p50", "p99"] as const) {
+      const samples = (fromMs: number, toMs: number) =>
+        http.latencySamples.filter((s) => inRange(s.ts, fromMs, toMs)).map((s) => s[p]);
+      deltas.push(seriesDelta(p, "ms", samples(cutoverMs, afterMs), samples(beforeMs, cutoverMs)));
+    }
+    const a = sumStatusCodes(http, cutoverMs, afterMs);
+    const b = sumStatusCodes(http, beforeMs, cutoverMs);
+    deltas.push(
+      signalDelta(
+        "errorRate5xx",
+        "%",
+        b.total > 0 ? (b.errors / b.total) * 100 : 0,
+        a.total > 0 ? (a.errors / a.total) * 100 : 0,
+        "two-proportion",
+        twoProportionP(a.errors, a.total, b.errors, b.total)
+      )
+    );
+  }
+
+  const cutOff = logsCutOffIn(signals.logCoverage ?? [], deployments, beforeMs, afterMs);
+  const logsIn = (fromMs: number, toMs: number) =>
+    signals.logs.filter((l) => {
+      const t = new Date(l.timestamp).getTime();
+      return t >= fromMs && t < toMs;
+    });
+  const logsBefore = logsIn(beforeMs, cutoverMs);
+  const logsAfter = logsIn(cutoverMs, afterMs);
+  const errorsBefore = logsBefore.filter(isErrorEntry).length;
+  const errorsAfter = logsAfter.filter(isErrorEntry).length;
+  if (hoursBefore > 0 && hoursAfter > 0 && cutOff.length === 0) {
+    deltas.push(
+      signalDelta(
+        "errorLogsPerHour",
+        "entries/h",
+        errorsBefore / hoursBefore,
+        errorsAfter / hoursAfter,
+        "poisson-rate",
+        poissonRateP(errorsAfter, hoursAfter, errorsBefore, hoursBefore)
+      )
+    );
+  }
+
+  deltas.push(
+    seriesDelta("cpu", "cores", values(signals.cpu, cutoverMs, afterMs), values(signals.cpu, beforeMs, cutoverMs)),
+    seriesDelta(
+      "memoryMb",
+      "MB",
+      values(signals.memory, cutoverMs, afterMs, 1024),
+      values(signals.memory, beforeMs, cutoverMs, 1024)
+    )
+  );
+
+  const newPatterns = cutOff.length === 0 ? newPatternsAfter(logsBefore, logsAfter) : [];
+  const { verdict, evidence } = judge(deltas, newPatterns);
+  if (cutOff.length > 0) {
+    const ids = cutOff.map((c) => c.deploymentId?.substring(0, 8) ?? "environment").join(", ");
+    evidence.push(
+      `Error log rate and new patterns not compared: logs for ${ids} hit the line limit inside the compared range (raise --lines).`
+    );
+  }
+
+  return {
+    deploymentId: deployment.id,
+    previousDeploymentId: previous?.id,
+    cutover: deployment.activeFrom,
+    before: { start: new Date(beforeMs).toISOString(), end: deployment.activeFrom },
+    after: { start: deployment.activeFrom, end: new Date(afterMs).toISOString() },
+    deltas,
+    newPatterns,
+    verdict,
+    evidence,
+  };
+}
+
+function judge(deltas: SignalDelta[], newPatterns: LogPattern[]): { verdict: DeployVerdict; evidence: string[] } {
+  const material = deltas.filter((d) => d.significant && isMaterial(d));
+  const worse = material.filter((d) => d.change > 0);
+  const better = material.filter((d) => d.change < 0);
+  const newErrors = newPatterns.filter(
+    (p) => (p.severities.error ?? 0) + (p.severities.fatal ?? 0) >= MIN_NEW_ERROR_PATTERN_COUNT
+  );
+
+  const evidence = [
+    ...worse.map((d) => `Worse: ${describeSignalDelta(d)}`),
+    ...newErrors.map((p) => `New error pattern (${p.count}× after the deploy): ${p.template}`),
+    ...better.map((d) => `Better: ${describeSignalDelta(d)}`),
+  ];
+
+  if (worse.length > 0 || newErrors.length > 0) return { verdict: "regressed", evidence };
+  if (better.length > 0) return { verdict: "improved", evidence };
+
+  const tested = deltas.filter((d) => d.pValue !== undefined).length;
+  evidence.push(
+    tested === 0
+      ? "Not enough samples either side of the cutover to test any signal."
+      : `No significant change in ${tested} tested signal(s).`
+  );
+  return { verdict: "neutral", evidence };
+}
+
+/**
+ * Fetch the metrics and deploy logs around one deployment's cutover and
+ * judge it against the deployment it replaced (the `deploy-diff` command).
+ */
+export async function collectDeployDiff(options: {
+  projectId: string;
+  environmentId: string;
+  serviceId: string;
+  deploymentId: string;
+  windowMs?: number;
+  logLines?: number;
+  redactor?: Redactor;
+}): Promise<{ diff: DeployDiff; warnings: string[] }> {
+  const {
+    projectId,
+    environmentId,
+    serviceId,
+    deploymentId,
+    windowMs = DEFAULT_DEPLOY_WINDOW_MS,
+    logLines = 1000,
+    redactor,
+  } = options;
+  const warnings: string[] = [];
+
+  // Page back until the deployment and the one it replaced are both found
+  const history = await pageDeployments(projectId, environmentId, serviceId, (fetched) => {
+    const target = fetched.find((d) => d.id === deploymentId);
+    if (!target) return false;
+    const createdMs = new Date(target.createdAt).getTime();
+    return fetched.some((d) => hasServed(d) && new Date(d.createdAt).getTime() < createdMs);
+  });
+  const withIntervals = assignActiveIntervals(history);
+  const target = withIntervals.find((d) => d.id === deploymentId);
+  if (!target) {
+    throw new Error(`Deployment ${deploymentId} was not found in this service's recent deployments.`);
+  }
+  if (!target.activeFrom) {
+    throw new Error(`Deployment ${deploymentId} never served traffic (status ${target.status}); there is no cutover to compare.`);
+  }
+
+  const cutoverMs = new Date(target.activeFrom).getTime();
+  const startDate = new Date(cutoverMs - windowMs).toISOString();
+  const endDate = new Date(Math.min(cutoverMs + windowMs, now().valueOf())).toISOString();
+  const sampleRate = calculateSampleRate(startDate, endDate);
+
+  const [metricsResponse, httpMetricsResponse] = await Promise.all([
+    fetchAllMetrics(environmentId, serviceId, startDate, endDate, sampleRate),
+    fetchHttpMetrics(environmentId, serviceId, startDate, endDate, sampleRate).catch((err) => {
+      warnings.push(`HTTP metrics unavailable: ${describeError(err).message}`);
+      return null;
+    }),
+  ]);
+
+  // Deploy logs of every deployment serving on either side of the cutover
+  const batches: LogBatch[] = [];
+  for (const deployment of withIntervals.filter((d) => wasActiveDuring(d, startDate, endDate))) {
+    try {
+      batches.push(await fetchLogBatch(deployment.id, "deploy", logLines, { startDate, endDate }));
+    } catch (err) {
+      warnings.push(
+        `Deploy logs for ${deployment.id.substring(0, 8)} unavailable: ${describeError(err).message}`
+      );
+    }
+  }
+  const merged = mergeLogBatches(batches);
+  for (const c of merged.coverage.filter((c) => c.truncated)) {
+    warnings.push(
+      `Deploy logs for ${c.deploymentId?.substring(0, 8)} hit the ${c.limit}-line limit (raise --lines for complete data)`
+    );
+  }
+  const logs = redactor ? merged.entries.map((l) => redactor.redactEntry(l)) : merged.entries;
+
+  const metrics = metricsResponse.metrics;
+  const diff = diffDeployment(
+    target,
+    withIntervals,
+    {
+      cpu: mergeMetricSeries(metrics, "CPU_USAGE"),
+      memory: mergeMetricSeries(metrics, "MEMORY_USAGE_GB"),
+      http: httpMetricsResponse ? summarizeHttpMetrics(httpMetricsResponse) : undefined,
+      logs,
+      logCoverage: merged.coverage,
+    },
+    windowMs,
+    { start: startDate, end: endDate }
+  );
+  return { diff, warnings };
+}
+
+/**
+ * "8a7b6c5d regressed at 2026-10-19T10:42:00Z (before: 15m, after: 15m)".
+ */
+export function describeDeployDiff(diff: DeployDiff): string {
+  const minutes = (range: { start: string; end: string }) =>
+    `${Math.round((new Date(range.end).getTime() - new Date(range.start).getTime()) / 60000)}m`;
+  return `${diff.deploymentId.substring(0, 8)} ${diff.verdict} at ${diff.cutover} (before: ${minutes(diff.before)}, after: ${minutes(diff.after)})`;
+}
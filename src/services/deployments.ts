@@ -0,0 +1,108 @@
+import type { DeploymentNode } from "../types/railway.js";
+
+/**
+ * Statuses of deployments that reached the point of serving traffic.
+ * Superseded deployments end up REMOVED; crashed ones served until they crashed.
+ */
+const SERVED_STATUSES = new Set(["SUCCESS", "SLEEPING", "CRASHED", "REMOVED", "REMOVING"]);
+
+/**
+ * Statuses that mean the deployment is still serving right now.
+ */
+const LIVE_STATUSES = new Set(["SUCCESS", "SLEEPING"]);
+
+export function hasServed(deployment: DeploymentNode): boolean {
+  return SERVED_STATUSES.has(deployment.status);
+}
+
+/**
+ * Assign an active-from/to interval to each deployment that served traffic.
+ *
+ * Railway doesn't expose the exact cutover time, so it is inferred: a
+ * deployment goes live when its predecessor was removed (the predecessor's
+ * `updatedAt`), falling back to its own `createdAt`. It stops serving when
+ * the next serving deployment goes live, or at its own `updatedAt` if it was
+ * removed or crashed with no successor. Returns new objects, newest first.
+ */
+export function assignActiveIntervals(deployments: DeploymentNode[]): DeploymentNode[] {
+  const byCreated = [...deployments].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const served = byCreated.filter(hasServed);
+  const intervals = new Map<string, { activeFrom: string; activeTo: string | null }>();
+
+  for (let i = 0; i < served.length; i++) {
+    const d = served[i];
+    const prev = served[i - 1];
+
+    let activeFrom = d.createdAt;
+    if (
+      prev &&
+      (prev.status === "REMOVED" || prev.status === "REMOVING") &&
+      new Date(prev.updatedAt).getTime() >= new Date(d.createdAt).getTime()
+    ) {
+      activeFrom = prev.updatedAt;
+    }
+    intervals.set(d.id, { activeFrom, activeTo: null });
+
+    if (prev) {
+      intervals.get(prev.id)!.activeTo = activeFrom;
+    }
+  }
+
+  const last = served[served.length - 1];
+  if (last && !LIVE_STATUSES.has(last.status)) {
+    intervals.get(last.id)!.activeTo = last.updatedAt;
+  }
+
+  return byCreated
+    .map((d) => ({ ...d, ...intervals.get(d.id) }))
+    .reverse();
+}
+
+/**
+ * Whether a deployment was serving at any point in [startDate, endDate].
+ */
+export function wasActiveDuring(
+  deployment: DeploymentNode,
+  startDate: string,
+  endDate: string
+): boolean {
+  if (!deployment.activeFrom) return false;
+  const from = new Date(deployment.activeFrom).getTime();
+  const to = deployment.activeTo ? new Date(deployment.activeTo).getTime() : Infinity;
+  return from <= new Date(endDate).getTime() && to >= new Date(startDate).getTime();
+}
+
+/**
+ * Deployments relevant to an analysis window: those serving during it, plus
+ * any created inside it (failed builds never serve but still have logs).
+ */
+export function deploymentsInWindow(
+  deployments: DeploymentNode[],
+  startDate: string,
+  endDate: string
+): DeploymentNode[] {
+  const startMs = new Date(startDate).getTime();
+  const endMs = new Date(endDate).getTime();
+  return deployments.filter((d) => {
+    const created = new Date(d.createdAt).getTime();
+    return wasActiveDuring(d, startDate, endDate) || (created >= startMs && created <= endMs);
+  });
+}
+
+/**
+ * The deployment that was serving at `timestamp` (ISO string or epoch seconds).
+ */
+export function deploymentAt(
+  deployments: DeploymentNode[],
+  timestamp: string | number
+): DeploymentNode | undefined {
+  const ms = typeof timestamp === "number" ? timestamp * 1000 : new Date(timestamp).getTime();
+  return deployments.find((d) => {
+    if (!d.activeFrom) return false;
+    const from = new Date(d.activeFrom).getTime();
+    const to = d.activeTo ? new Date(d.activeTo).getTime() : Infinity;
+    return ms >= from && ms < to;
+  });
+}
@@ -0,0 +1,235 @@
+import { ClientError } from "graphql-request";
+
+/**
+ * Typed errors for the Railway API request layer.
+ *
+ * Every failure coming out of `railway-client.ts` is classified into one of
+ * these so commands can print an actionable hint instead of raw
+ * graphql-request output.
+ */
+
+export type RailwayErrorKind =
+  | "auth"
+  | "rate-limited"
+  | "not-found"
+  | "schema-changed"
+  | "network"
+  | "server";
+
+export class RailwayApiError extends Error {
+  readonly kind: RailwayErrorKind;
+  readonly operation: string;
+  readonly status?: number;
+  readonly hint?: string;
+
+  constructor(
+    kind: RailwayErrorKind,
+    operation: string,
+    message: string,
+    options: { status?: number; hint?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "RailwayApiError";
+    this.kind = kind;
+    this.operation = operation;
+    this.status = options.status;
+    this.hint = options.hint;
+  }
+
+  /** Whether retrying the same request may succeed. */
+  get retryable(): boolean {
+    return this.kind === "rate-limited" || this.kind === "network" || this.kind === "server";
+  }
+}
+
+export class AuthError extends RailwayApiError {
+  constructor(operation: string, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super("auth", operation, message, {
+      ...options,
+      hint:
+        "Check that RAILWAY_TOKEN is valid and has access to this project.\n" +
+        "Create a token at https://railway.com/account/tokens",
+    });
+    this.name = "AuthError";
+  }
+}
+
+export class RateLimitError extends RailwayApiError {
+  /** Milliseconds until the rate limit resets, when Railway reports it. */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    operation: string,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super("rate-limited", operation, message, {
+      ...options,
+      hint:
+        options.retryAfterMs !== undefined
+          ? `Railway rate limit reached. Try again in ${Math.ceil(options.retryAfterMs / 1000)}s.`
+          : "Railway rate limit reached. Wait a minute and try again, or use a shorter --period.",
+    });
+    this.name = "RateLimitError";
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class NotFoundError extends RailwayApiError {
+  constructor(operation: string, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super("not-found", operation, message, {
+      ...options,
+      hint: "Check the project, environment and service IDs (or the --url you passed).",
+    });
+    this.name = "NotFoundError";
+  }
+}
+
+export class SchemaChangedError extends RailwayApiError {
+  constructor(operation: string, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super("schema-changed", operation, message, {
+      ...options,
+      hint:
+        "Railway's GraphQL schema no longer matches this query. " +
+        "Update railway-metrics-cli, or report the error above.",
+    });
+    this.name = "SchemaChangedError";
+  }
+}
+
+export class NetworkError extends RailwayApiError {
+  constructor(operation: string, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super("network", operation, message, {
+      ...options,
+      hint: "Could not reach backboard.railway.com. Check your network connection or proxy settings.",
+    });
+    this.name = "NetworkError";
+  }
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/**
+ * Parse Retry-After / X-RateLimit-Reset headers into a delay in milliseconds.
+ */
+function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  if (!headers) return undefined;
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset = headers.get("x-ratelimit-reset");
+  if (reset) {
+    const value = Number(reset);
+    if (Number.isFinite(value)) {
+      // Epoch seconds or milliseconds
+      const resetMs = value > 1e12 ? value : value * 1000;
+      return Math.max(0, resetMs - Date.now());
+    }
+    const date = Date.parse(reset);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function errorCode(err: unknown): string | undefined {
+  let current: unknown = err;
+  // Walk the cause chain: undici wraps socket errors in TypeError("fetch failed")
+  for (let depth = 0; current && depth < 5; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string") return code;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+/**
+ * Classify any error thrown while requesting `operation` into a typed error.
+ * Errors that are not recognizably from the API are returned unchanged.
+ */
+export function classifyError(operation: string, err: unknown): unknown {
+  if (err instanceof RailwayApiError) return err;
+
+  if (err instanceof ClientError) {
+    const status = err.response.status;
+    const messages = (err.response.errors ?? []).map((e) => e.message);
+    const message = messages.length > 0 ? messages.join("; ") : `HTTP ${status}`;
+    const text = message.toLowerCase();
+    const summary = `${operation} failed: ${message}`;
+
+    if (status === 429 || text.includes("rate limit") || text.includes("too many requests")) {
+      return new RateLimitError(operation, summary, {
+        status,
+        retryAfterMs: parseRetryAfter(err.response.headers),
+        cause: err,
+      });
+    }
+    if (
+      status === 401 ||
+      status === 403 ||
+      text.includes("not authorized") ||
+      text.includes("unauthorized") ||
+      text.includes("forbidden")
+    ) {
+      return new AuthError(operation, summary, { status, cause: err });
+    }
+    if (
+      text.includes("cannot query field") ||
+      text.includes("unknown argument") ||
+      text.includes("unknown type") ||
+      text.includes("is not defined by type") ||
+      text.includes("of required type") ||
+      /variable "\$\w+" of type/.test(text)
+    ) {
+      return new SchemaChangedError(operation, summary, { status, cause: err });
+    }
+    if (status === 404 || text.includes("not found") || text.includes("does not exist")) {
+      return new NotFoundError(operation, summary, { status, cause: err });
+    }
+    if (status >= 500) {
+      return new RailwayApiError("server", operation, summary, {
+        status,
+        hint: "Railway returned a server error. It is usually transient; try again shortly.",
+        cause: err,
+      });
+    }
+    return err;
+  }
+
+  const code = errorCode(err);
+  if (
+    (code && NETWORK_ERROR_CODES.has(code)) ||
+    (err instanceof TypeError && err.message === "fetch failed")
+  ) {
+    const detail = code ?? (err instanceof Error ? err.message : String(err));
+    return new NetworkError(operation, `${operation} failed: network error (${detail})`, { cause: err });
+  }
+
+  return err;
+}
+
+/**
+ * Describe an error for display: the message plus an optional hint.
+ */
+export function describeError(err: unknown): { message: string; hint?: string } {
+  if (err instanceof RailwayApiError) {
+    return { message: err.message, hint: err.hint };
+  }
+  return { message: err instanceof Error ? err.message : String(err) };
+}
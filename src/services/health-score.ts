@@ -0,0 +1,197 @@
+import type {
+  HealthRuleConfig,
+  HealthRuleName,
+  HealthRuleResult,
+  HealthScore,
+  HealthStatus,
+  ServiceHealthReport,
+} from "../types/railway.js";
+import type { HealthScoreConfig } from "../utils/config.js";
+import { isErrorEntry } from "./severity.js";
+
+/**
+ * Deterministic health score: weighted rules over a ServiceHealthReport, so
+ * the same data always gives the same score and it can be tracked or gated
+ * on. Claude is given the result as ground truth to explain, not to redo.
+ *
+ * Every rule measures something where higher is worse. It scores 100 at or
+ * below `good`, 0 at or above `bad`, and linearly in between. Rules without
+ * data (no HTTP metrics, no memory limit) are skipped and the remaining
+ * weights are renormalized.
+ */
+
+interface RuleDefinition {
+  weight: number;
+  good: number;
+  bad: number;
+  unit: string;
+  /** The measured value and why, or a reason the rule can't be scored */
+  measure(report: ServiceHealthReport): { value: number; reasons: string[] } | { skipped: string };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RULES: Record<HealthRuleName, RuleDefinition> = {
+  "p99-latency": {
+    weight: 30,
+    good: 500,
+    bad: 2000,
+    unit: "ms",
+    measure(report) {
+      const http = report.metrics.http;
+      if (!http || http.latency.p99.dataPoints === 0) return { skipped: "No HTTP latency data" };
+      const p99 = http.latency.p99;
+      return {
+        value: p99.avg,
+        reasons: [`p99 latency averaged ${p99.avg.toFixed(0)} ms (peak ${p99.max.toFixed(0)} ms over ${p99.dataPoints} samples)`],
+      };
+    },
+  },
+  "error-rate-5xx": {
+    weight: 30,
+    good: 0.1,
+    bad: 5,
+    unit: "%",
+    measure(report) {
+      const http = report.metrics.http;
+      if (!http || http.totalRequests === 0) return { skipped: "No HTTP requests in the period" };
+      const errors = http.statusCodes.find((b) => b.bucket === "5xx")?.count ?? 0;
+      const percent = (errors / http.totalRequests) * 100;
+      return {
+        value: percent,
+        reasons: [`${errors} of ${http.totalRequests} requests returned 5xx (${percent.toFixed(2)}%)`],
+      };
+    },
+  },
+  "memory-of-limit": {
+    weight: 15,
+    good: 80,
+    bad: 98,
+    unit: "%",
+    measure(report) {
+      const memory = report.metrics.utilization?.memory;
+      if (!memory) return { skipped: "No memory limit reported" };
+      return {
+        value: memory.p95Percent,
+        reasons: [
+          `Busiest replica's memory p95 was ${memory.p95Percent.toFixed(1)}% of its ${(memory.limit * 1024).toFixed(0)} MB limit (max ${memory.maxPercent.toFixed(1)}%)`,
+        ],
+      };
+    },
+  },
+  "failed-deployments": {
+    weight: 10,
+    good: 0,
+    bad: 3,
+    unit: "deployments",
+    measure(report) {
+      const failed = report.deployments.filter((d) => d.status === "FAILED" || d.status === "CRASHED");
+      return {
+        value: failed.length,
+        reasons:
+          failed.length > 0
+            ? failed.map((d) => `Deployment ${d.id.substring(0, 8)} ${d.status.toLowerCase()} (created ${d.createdAt})`)
+            : [`None of ${report.deployments.length} deployments failed or crashed`],
+      };
+    },
+  },
+  "error-log-rate": {
+    weight: 15,
+    good: 10,
+    bad: 200,
+    unit: "errors/h",
+    measure(report) {
+      const hours = (new Date(report.period.end).getTime() - new Date(report.period.start).getTime()) / HOUR_MS;
+      if (hours <= 0) return { skipped: "Empty period" };
+      const errors = report.logs.filter(isErrorEntry).length;
+      const truncated = (report.logCoverage ?? []).some((c) => c.truncated && c.source === "deploy");
+      return {
+        value: errors / hours,
+        reasons: [
+          `${errors} error log entries in ${hours.toFixed(1)} h (${(errors / hours).toFixed(1)}/h)${truncated ? "; log fetches were truncated, so this is a lower bound" : ""}`,
+        ],
+      };
+    },
+  },
+};
+
+export const HEALTH_RULE_NAMES = Object.keys(RULES) as HealthRuleName[];
+
+/**
+ * A rule's built-in weight and thresholds, which config overrides fall back to.
+ */
+export function healthRuleDefaults(name: HealthRuleName): { weight: number; good: number; bad: number } {
+  const { weight, good, bad } = RULES[name];
+  return { weight, good, bad };
+}
+
+function statusFor(score: number): HealthStatus {
+  if (score >= 90) return "healthy";
+  if (score >= 70) return "degraded";
+  return "unhealthy";
+}
+
+function scoreRule(value: number, good: number, bad: number): number {
+  if (value <= good) return 100;
+  if (value >= bad) return 0;
+  return Math.round((100 * (bad - value)) / (bad - good));
+}
+
+function formatThreshold(value: number, unit: string): string {
+  return `${value}${unit === "%" ? "%" : ` ${unit}`}`;
+}
+
+export function computeHealthScore(report: ServiceHealthReport, config: HealthScoreConfig = {}): HealthScore {
+  const rules: HealthRuleResult[] = [];
+
+  for (const name of HEALTH_RULE_NAMES) {
+    const overrides: HealthRuleConfig = config.rules?.[name] ?? {};
+    if (overrides.enabled === false) continue;
+    const definition = RULES[name];
+    const weight = overrides.weight ?? definition.weight;
+    const good = overrides.good ?? definition.good;
+    const bad = overrides.bad ?? definition.bad;
+    if (good >= bad) {
+      throw new Error(`Health rule ${name}: good (${good}) must be below bad (${bad}).`);
+    }
+
+    const measured = definition.measure(report);
+    if ("skipped" in measured) {
+      rules.push({ rule: name, weight, unit: definition.unit, good, bad, reasons: [`Skipped: ${measured.skipped}`] });
+      continue;
+    }
+
+    const score = scoreRule(measured.value, good, bad);
+    const verdict =
+      score === 100
+        ? `Within the ${formatThreshold(good, definition.unit)} target`
+        : score === 0
+          ? `At or past the ${formatThreshold(bad, definition.unit)} limit`
+          : `Between the ${formatThreshold(good, definition.unit)} target and the ${formatThreshold(bad, definition.unit)} limit`;
+    rules.push({
+      rule: name,
+      weight,
+      value: measured.value,
+      unit: definition.unit,
+      good,
+      bad,
+      score,
+      reasons: [...measured.reasons, verdict],
+    });
+  }
+
+  const scored = rules.filter((r) => r.score !== undefined && r.weight > 0);
+  const totalWeight = scored.reduce((s, r) => s + r.weight, 0);
+  const score =
+    totalWeight > 0 ? Math.round(scored.reduce((s, r) => s + r.score! * r.weight, 0) / totalWeight) : 100;
+
+  return { score, status: statusFor(score), rules };
+}
+
+/**
+ * "p99-latency 64/100 (weight 30): p99 latency averaged 1040 ms ...".
+ */
+export function describeHealthRule(r: HealthRuleResult): string {
+  const score = r.score !== undefined ? `${r.score}/100` : "skipped";
+  return `${r.rule} ${score} (weight ${r.weight}): ${r.reasons.join("; ")}`;
+}
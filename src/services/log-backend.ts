@@ -0,0 +1,110 @@
+import type { LogBatch, LogCoverage, LogEntry } from "../types/railway.js";
+import { isCliInstalled } from "./auth.js";
+import { assignActiveIntervals, deploymentsInWindow } from "./deployments.js";
+import { applyLogFilters, fetchLogs } from "./logs.js";
+import { mergeLogBatches } from "./log-merge.js";
+import { fetchDeploymentsSince, fetchLogBatch } from "./railway-client.js";
+
+/**
+ * A source of historical logs. The GraphQL backend is the default and needs
+ * only an API token; the CLI backend shells out to `railway logs`.
+ */
+export interface LogBackend {
+  readonly name: LogBackendName;
+  fetchLogs(query: LogQuery): Promise<LogFetchResult>;
+}
+
+export interface LogFetchResult {
+  entries: LogEntry[];
+  /** Per-batch coverage before filtering; unset when the backend can't tell */
+  coverage?: LogCoverage[];
+}
+
+export type LogBackendName = "graphql" | "cli";
+
+export interface LogQuery {
+  projectId: string;
+  environmentId: string;
+  serviceId?: string;
+  /** Scope to one deployment instead of every deployment active in the period */
+  deploymentId?: string;
+  since: string;
+  until: string;
+  lines?: number;
+  filter?: string;
+  build?: boolean;
+}
+
+const DEFAULT_LINES = 100;
+
+/**
+ * Fetch logs over the GraphQL API: resolve the deployments that were serving
+ * (or built) during the period and merge their logs.
+ */
+export const graphqlLogBackend: LogBackend = {
+  name: "graphql",
+
+  async fetchLogs(query) {
+    const limit = query.lines ?? DEFAULT_LINES;
+    const range = { startDate: query.since, endDate: query.until };
+
+    let deploymentIds: string[];
+    if (query.deploymentId) {
+      deploymentIds = [query.deploymentId];
+    } else {
+      if (!query.serviceId) {
+        throw new Error("Provide --service-id <id> (or --deployment <id>) to fetch logs.");
+      }
+      const history = await fetchDeploymentsSince(
+        query.projectId,
+        query.environmentId,
+        query.serviceId,
+        query.since
+      );
+      deploymentIds = deploymentsInWindow(assignActiveIntervals(history), query.since, query.until).map(
+        (d) => d.id
+      );
+    }
+
+    const batches: LogBatch[] = [];
+    for (const deploymentId of deploymentIds) {
+      batches.push(await fetchLogBatch(deploymentId, query.build ? "build" : "deploy", limit, range));
+    }
+
+    const { entries, coverage } = mergeLogBatches(batches);
+    return { entries: applyLogFilters(entries, { ...query, lines: limit }), coverage };
+  },
+};
+
+/**
+ * Fetch logs through the Railway CLI (`railway logs --json`).
+ */
+export const cliLogBackend: LogBackend = {
+  name: "cli",
+
+  async fetchLogs(query) {
+    if (!isCliInstalled()) {
+      throw new Error(
+        "The cli log backend requires the Railway CLI.\n" +
+          "Install: npm install -g @railway/cli, or use --backend graphql."
+      );
+    }
+    const entries = await fetchLogs({
+      serviceId: query.serviceId,
+      environmentId: query.environmentId,
+      deploymentId: query.deploymentId,
+      since: query.since,
+      until: query.until,
+      lines: query.lines ?? DEFAULT_LINES,
+      filter: query.filter,
+      build: query.build,
+    });
+    return { entries };
+  },
+};
+
+export function getLogBackend(name: string): LogBackend {
+  if (name === "graphql") return graphqlLogBackend;
+  if (name === "cli") return cliLogBackend;
+  throw new Error(`Unknown log backend "${name}". Use graphql or cli.`);
+}
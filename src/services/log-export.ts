@@ -0,0 +1,170 @@
+import type { LogEntry } from "../types/railway.js";
+import { lookupAttribute } from "./log-query.js";
+import { detectSeverity, type Severity } from "./severity.js";
+
+/**
+ * Log export formats. Each exporter turns one time chunk of entries into
+ * text, so an export is written chunk by chunk and never held in memory whole.
+ *
+ * - ndjson: one LogEntry per line
+ * - csv: fixed columns plus chosen attribute columns
+ * - otlp: OTLP/JSON `ExportLogsServiceRequest`, one per line (the OpenTelemetry
+ *   file exporter layout, readable by the Collector's otlpjsonfile receiver)
+ */
+
+export type LogExportFormat = "ndjson" | "csv" | "otlp";
+
+export const LOG_EXPORT_FORMATS: LogExportFormat[] = ["ndjson", "csv", "otlp"];
+
+export interface LogExporter {
+  /** Written once before the first chunk */
+  header(): string;
+  /** Text for one chunk of entries (empty string for an empty chunk) */
+  chunk(entries: LogEntry[]): string;
+}
+
+export interface LogExportResource {
+  projectId: string;
+  environmentId: string;
+  serviceId?: string;
+  serviceName?: string;
+}
+
+export function parseLogExportFormat(value: string): LogExportFormat {
+  const format = value.toLowerCase();
+  if (format === "jsonl") return "ndjson";
+  if (!LOG_EXPORT_FORMATS.includes(format as LogExportFormat)) {
+    throw new Error(`Unknown export format "${value}". Use ${LOG_EXPORT_FORMATS.join(", ")}.`);
+  }
+  return format as LogExportFormat;
+}
+
+export const ndjsonExporter: LogExporter = {
+  header: () => "",
+  chunk: (entries) =>
+    entries.map((e) => JSON.stringify({ ...e, severity: detectSeverity(e) }) + "\n").join(""),
+};
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with timestamp, severity, deployment and message, then one column per
+ * attribute path (nested values are written as JSON).
+ */
+export function createCsvExporter(attributeColumns: string[]): LogExporter {
+  return {
+    header: () =>
+      ["timestamp", "severity", "deployment_id", "message", ...attributeColumns].map(csvField).join(",") + "\r\n",
+    chunk: (entries) =>
+      entries
+        .map((e) =>
+          [
+            e.timestamp,
+            detectSeverity(e),
+            e.deploymentId,
+            e.message,
+            ...attributeColumns.map((path) => lookupAttribute(e.attributes, path)),
+          ]
+            .map(csvField)
+            .join(",") + "\r\n"
+        )
+        .join(""),
+  };
+}
+
+// OpenTelemetry SeverityNumber: the first value of each range
+const OTLP_SEVERITY: Record<Severity, number> = {
+  trace: 1,
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  fatal: 21,
+};
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+  | { kvlistValue: { values: OtlpKeyValue[] } };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  if (value && typeof value === "object") return { kvlistValue: { values: toKeyValues(value as Record<string, unknown>) } };
+  return { stringValue: String(value) };
+}
+
+function toKeyValues(fields: Record<string, unknown>): OtlpKeyValue[] {
+  return Object.entries(fields)
+    .filter(([, v]) => v !== undefined && v !== null)
+    .map(([key, v]) => ({ key, value: toAnyValue(v) }));
+}
+
+function toUnixNano(timestamp: string): string {
+  return (BigInt(new Date(timestamp).getTime()) * 1_000_000n).toString();
+}
+
+export function createOtlpExporter(resource: LogExportResource): LogExporter {
+  const resourceAttributes = toKeyValues({
+    "service.name": resource.serviceName ?? resource.serviceId,
+    "railway.project.id": resource.projectId,
+    "railway.environment.id": resource.environmentId,
+    "railway.service.id": resource.serviceId,
+  });
+
+  return {
+    header: () => "",
+    chunk(entries) {
+      if (entries.length === 0) return "";
+      const logRecords = entries.map((e) => {
+        const severity = detectSeverity(e);
+        const attributes = toKeyValues({
+          ...e.attributes,
+          "railway.deployment.id": e.deploymentId,
+          "log.timestamp_inferred": e.timestampInferred,
+        });
+        return {
+          timeUnixNano: toUnixNano(e.timestamp),
+          severityNumber: OTLP_SEVERITY[severity],
+          severityText: severity.toUpperCase(),
+          body: { stringValue: e.message },
+          attributes,
+        };
+      });
+      const request = {
+        resourceLogs: [
+          {
+            resource: { attributes: resourceAttributes },
+            scopeLogs: [{ scope: { name: "railway-metrics-cli" }, logRecords }],
+          },
+        ],
+      };
+      return JSON.stringify(request) + "\n";
+    },
+  };
+}
+
+export function createLogExporter(
+  format: LogExportFormat,
+  options: { columns?: string[]; resource: LogExportResource }
+): LogExporter {
+  if (format === "csv") return createCsvExporter(options.columns ?? []);
+  if (format === "otlp") return createOtlpExporter(options.resource);
+  return ndjsonExporter;
+}
@@ -0,0 +1,245 @@
+import type { LogEntry, StackTrace } from "../types/railway.js";
+import { detectSeverity } from "./severity.js";
+import { commonLogLineParser, logfmtLineParser, timestampPrefixLineParser } from "./log-parsers.js";
+
+/**
+ * Log ingestion stage: joins continuation lines of multi-line exceptions
+ * (Node, Python, JVM, Go) back into one entry, parses the stack, extracts
+ * logfmt/common-log fields from plain-text messages, and normalizes severity.
+ *
+ * Railway stores each stdout/stderr line as its own log entry, so without
+ * this a 30-frame stack trace counts as 30 errors.
+ */
+
+// Continuation lines are printed in one burst; anything further apart is a new entry
+const MAX_CONTINUATION_GAP_MS = 2_000;
+
+const NODE_OR_JVM_FRAME = /^\s+at\s+\S/;
+const PYTHON_FRAME = /^\s+File ".*", line \d+/;
+const GO_FRAME = /^\t\S/;
+const CAUSE_LINE = /^\s*(Caused by|Suppressed):\s/;
+const OMITTED_FRAMES = /^\s*\.\.\. \d+ (more|common frames omitted)/;
+const PYTHON_TRACEBACK = /^Traceback \(most recent call last\):/;
+const PYTHON_CHAINED = /^(During handling of the above exception|The above exception was the direct cause)/;
+const PYTHON_EXCEPTION_LINE = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+const GO_GOROUTINE = /^goroutine \d+ \[/;
+const JVM_FRAME_SOURCE = /\((?:[\w$]+\.(?:java|kt|scala|groovy):\d+|Native Method|Unknown Source)\)/;
+const ERROR_HEADER =
+  /^(?:Uncaught\s+)?(?:Exception in thread "[^"]*"\s+)?([\w$.]*(?:Error|Exception|Throwable|Fault)[\w$]*)(?::\s*(.*))?$/;
+
+interface TraceState {
+  /** Inside a Python traceback that hasn't reached its exception line yet */
+  pythonOpen: boolean;
+  /** A Python traceback has been joined (chained tracebacks may follow) */
+  python: boolean;
+  /** Saw "During handling of the above exception..."; the next traceback belongs here */
+  pythonChained: boolean;
+  /** Inside a Go panic dump */
+  goOpen: boolean;
+  /** At least one frame has been joined */
+  hasFrames: boolean;
+}
+
+function startState(message: string): TraceState {
+  const first = message.split("\n")[0];
+  return {
+    pythonOpen: PYTHON_TRACEBACK.test(first),
+    python: PYTHON_TRACEBACK.test(first),
+    pythonChained: false,
+    goOpen: /^panic: /.test(first) || GO_GOROUTINE.test(first),
+    hasFrames: false,
+  };
+}
+
+/**
+ * Whether `line` continues the exception in the previous entry. Updates the
+ * trace state as the Python/Go blocks open and close.
+ */
+function continues(line: string, state: TraceState): boolean {
+  if (NODE_OR_JVM_FRAME.test(line) || OMITTED_FRAMES.test(line) || PYTHON_FRAME.test(line)) {
+    state.hasFrames = true;
+    return true;
+  }
+  if (CAUSE_LINE.test(line)) return state.hasFrames;
+
+  if (state.pythonOpen) {
+    if (/^\s/.test(line) || line === "") return true;
+    // The unindented exception line closes the traceback
+    state.pythonOpen = false;
+    return true;
+  }
+  if (state.python) {
+    if (line === "") return true;
+    if (PYTHON_CHAINED.test(line)) {
+      state.pythonChained = true;
+      return true;
+    }
+    if (state.pythonChained && PYTHON_TRACEBACK.test(line)) {
+      state.pythonChained = false;
+      state.pythonOpen = true;
+      return true;
+    }
+    return false;
+  }
+
+  if (state.goOpen) {
+    if (GO_FRAME.test(line) || GO_GOROUTINE.test(line) || line === "") {
+      state.hasFrames = state.hasFrames || GO_FRAME.test(line);
+      return true;
+    }
+    // Function lines ("main.handler(...)") precede their \t file:line
+    if (/^[\w./*()-]+\(.*\)$/.test(line)) return true;
+    state.goOpen = false;
+    return false;
+  }
+
+  return false;
+}
+
+function withinGap(previous: LogEntry, next: LogEntry): boolean {
+  const gap = new Date(next.timestamp).getTime() - new Date(previous.timestamp).getTime();
+  return Number.isNaN(gap) || Math.abs(gap) <= MAX_CONTINUATION_GAP_MS;
+}
+
+/**
+ * Fields from plain-text messages (logfmt pairs, common-log request fields)
+ * for entries Railway didn't receive as structured logs.
+ */
+function extractFields(entry: LogEntry): Record<string, unknown> | undefined {
+  if (entry.attributes || entry.stack) return entry.attributes;
+  for (const parser of [logfmtLineParser, commonLogLineParser, timestampPrefixLineParser]) {
+    const parsed = parser.parse(entry.message);
+    if (parsed) return parsed.attributes;
+  }
+  return undefined;
+}
+
+/**
+ * Run fetched log lines through ingestion: reassemble multi-line exceptions,
+ * extract fields from plain-text messages, then set each entry's severity to
+ * its normalized level.
+ */
+export function ingestLogs(entries: LogEntry[]): LogEntry[] {
+  return reassembleMultiline(entries).map((e) => {
+    const entry = { ...e, attributes: extractFields(e) };
+    return { ...entry, severity: detectSeverity(entry) };
+  });
+}
+
+/**
+ * Join continuation lines into the entry they belong to. Entries must be in
+ * emission order; lines only join entries from the same deployment.
+ * Multi-line entries get a parsed `stack`.
+ */
+export function reassembleMultiline(entries: LogEntry[]): LogEntry[] {
+  const result: LogEntry[] = [];
+  let current: LogEntry | undefined;
+  let state: TraceState | undefined;
+
+  for (const entry of entries) {
+    if (
+      current &&
+      state &&
+      current.deploymentId === entry.deploymentId &&
+      withinGap(current, entry) &&
+      continues(entry.message, state)
+    ) {
+      current.message += `\n${entry.message}`;
+      continue;
+    }
+
+    current = { ...entry };
+    state = startState(entry.message);
+    result.push(current);
+  }
+
+  for (const e of result) {
+    // Blank lines joined while waiting for a chained traceback
+    e.message = e.message.replace(/\n+$/, "");
+    if (e.message.includes("\n")) {
+      const stack = parseStackTrace(e.message);
+      if (stack) e.stack = stack;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a multi-line exception into its type, message, frames and causes.
+ * Returns undefined if the text has no recognizable frames.
+ */
+export function parseStackTrace(text: string): StackTrace | undefined {
+  const lines = text.split("\n");
+  const frames: string[] = [];
+  const causes: string[] = [];
+  let runtime: StackTrace["runtime"] = "unknown";
+
+  if (lines.some((l) => PYTHON_TRACEBACK.test(l))) runtime = "python";
+  else if (lines.some((l) => GO_GOROUTINE.test(l) || /^panic: /.test(l))) runtime = "go";
+
+  for (const line of lines) {
+    if (NODE_OR_JVM_FRAME.test(line)) {
+      frames.push(line.trim().replace(/^at\s+/, ""));
+      if (runtime === "unknown" || runtime === "node") {
+        runtime = JVM_FRAME_SOURCE.test(line) ? "jvm" : "node";
+      }
+    } else if (PYTHON_FRAME.test(line)) {
+      frames.push(line.trim());
+    } else if (runtime === "go" && GO_FRAME.test(line)) {
+      frames.push(line.trim());
+    } else if (CAUSE_LINE.test(line)) {
+      causes.push(line.trim().replace(/^(Caused by|Suppressed):\s*/, ""));
+    }
+  }
+  if (frames.length === 0) return undefined;
+
+  let errorType: string | undefined;
+  let errorMessage: string | undefined;
+
+  if (runtime === "python") {
+    // Each traceback ends with "ExceptionType: message"; the last one is the one raised
+    const exceptionLines = lines.filter(
+      (l, i) => i > 0 && !/^\s/.test(l) && l !== "" && !PYTHON_TRACEBACK.test(l) && !PYTHON_CHAINED.test(l)
+    );
+    const chained = exceptionLines
+      .map((l) => l.match(PYTHON_EXCEPTION_LINE))
+      .filter((m): m is RegExpMatchArray => m !== null);
+    const raised = chained.pop();
+    if (raised) {
+      errorType = raised[1];
+      errorMessage = raised[2];
+    }
+    causes.push(...chained.map((m) => m[0]));
+  } else if (runtime === "go") {
+    const panic = lines.find((l) => /^panic: /.test(l));
+    if (panic) {
+      errorType = "panic";
+      errorMessage = panic.replace(/^panic:\s*/, "");
+    }
+  } else {
+    const header = lines.find((l) => ERROR_HEADER.test(l.trim()));
+    const match = header?.trim().match(ERROR_HEADER);
+    if (match) {
+      errorType = match[1];
+      errorMessage = match[2];
+    }
+  }
+
+  return {
+    runtime,
+    errorType,
+    errorMessage,
+    frames,
+    causes: causes.length > 0 ? causes : undefined,
+  };
+}
+
+/**
+ * One-line summary of an exception: type, message, and the innermost frame.
+ */
+export function describeStack(stack: StackTrace): string {
+  const innermost = stack.runtime === "python" ? stack.frames[stack.frames.length - 1] : stack.frames[0];
+  const error = `${stack.errorType ?? "Error"}${stack.errorMessage ? `: ${stack.errorMessage}` : ""}`;
+  return innermost ? `${error} (at ${innermost})` : error;
+}
@@ -0,0 +1,75 @@
+import type { LogBatch, LogCoverage, LogEntry } from "../types/railway.js";
+
+/**
+ * Merge stage for logs fetched per deployment: tags every entry with its
+ * deployment and source, drops lines fetched more than once within the same
+ * stream (overlapping ranges), sorts by time and records per batch whether
+ * the line limit cut the logs off. The source is part of the key, so a line
+ * that appears in both the deploy and the build stream is kept once per stream.
+ */
+
+function dedupeKey(entry: LogEntry): string {
+  return `${entry.timestamp}\u0000${entry.source ?? ""}\u0000${entry.message}`;
+}
+
+export function mergeLogBatches(batches: LogBatch[]): { entries: LogEntry[]; coverage: LogCoverage[] } {
+  const seen = new Set<string>();
+  const entries: LogEntry[] = [];
+  const coverage: LogCoverage[] = [];
+
+  for (const batch of batches) {
+    let kept = 0;
+    let duplicates = 0;
+    let oldest: string | undefined;
+    let newest: string | undefined;
+
+    for (const raw of batch.entries) {
+      const entry: LogEntry = {
+        ...raw,
+        deploymentId: raw.deploymentId ?? batch.deploymentId,
+        source: raw.source ?? batch.source,
+      };
+      const key = dedupeKey(entry);
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(key);
+      entries.push(entry);
+      kept++;
+
+      const ms = new Date(entry.timestamp).getTime();
+      if (oldest === undefined || ms < new Date(oldest).getTime()) oldest = entry.timestamp;
+      if (newest === undefined || ms > new Date(newest).getTime()) newest = entry.timestamp;
+    }
+
+    coverage.push({
+      deploymentId: batch.deploymentId,
+      source: batch.source,
+      lineCount: batch.lineCount,
+      limit: batch.limit,
+      truncated: batch.limit !== undefined && batch.lineCount >= batch.limit,
+      entries: kept,
+      duplicates,
+      oldest,
+      newest,
+    });
+  }
+
+  entries.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  return { entries, coverage };
+}
+
+/**
+ * "abc12345 deploy: 500/500 lines (truncated, nothing before 2024-05-01T11:02:00Z), 3 duplicates".
+ */
+export function describeLogCoverage(c: LogCoverage): string {
+  const id = c.deploymentId ? c.deploymentId.substring(0, 8) : "service";
+  const lines = c.limit !== undefined ? `${c.lineCount}/${c.limit} lines` : `${c.lineCount} lines`;
+  const cut = c.truncated ? ` (truncated${c.oldest ? `, nothing before ${c.oldest}` : ""})` : "";
+  const dupes = c.duplicates > 0 ? `, ${c.duplicates} duplicates dropped` : "";
+  return `${id} ${c.source}: ${lines}${cut}${dupes}`;
+}
@@ -0,0 +1,103 @@
+import type { LogEntry, LogMetricDefinition } from "../types/railway.js";
+import { compileLogQuery, lookupAttribute } from "./log-query.js";
+import { mean, percentile } from "../utils/stats.js";
+
+/**
+ * User-defined metrics derived from logs: counters ("count of `payment
+ * declined`") and gauges over a numeric attribute ("avg of `db_ms`"),
+ * evaluated per correlation timeline window.
+ */
+
+export interface CompiledLogMetric {
+  definition: LogMetricDefinition;
+  matches: (entry: LogEntry) => boolean;
+}
+
+/**
+ * Compile each metric's log query once. Query errors name the metric so a
+ * typo in the config file is easy to find.
+ */
+export function compileLogMetrics(definitions: LogMetricDefinition[]): CompiledLogMetric[] {
+  return definitions.map((definition) => {
+    try {
+      return {
+        definition,
+        matches: definition.query ? compileLogQuery(definition.query) : () => true,
+      };
+    } catch (err) {
+      throw new Error(
+        `Log metric "${definition.name}": ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  });
+}
+
+/** A numeric attribute value; numeric strings ("12.5") count too */
+function numericValue(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Value of one metric over a set of entries. Gauges with no samples return
+ * undefined rather than 0 so an idle window doesn't read as a drop.
+ */
+export function evaluateLogMetric(metric: CompiledLogMetric, entries: LogEntry[]): number | undefined {
+  const { type, attribute } = metric.definition;
+  const matched = entries.filter(metric.matches);
+  if (type === "count") return matched.length;
+
+  const samples: number[] = [];
+  for (const entry of matched) {
+    const value = numericValue(lookupAttribute(entry.attributes, attribute ?? ""));
+    if (value !== undefined) samples.push(value);
+  }
+  if (samples.length === 0) return undefined;
+
+  switch (type) {
+    case "sum":
+      return samples.reduce((a, b) => a + b, 0);
+    case "avg":
+      return mean(samples);
+    case "min":
+      return Math.min(...samples);
+    case "max":
+      return Math.max(...samples);
+    case "p95":
+      return percentile(samples, 95);
+  }
+}
+
+/**
+ * All metrics over a set of entries, keyed by name (gauges without samples
+ * are left out).
+ */
+export function evaluateLogMetrics(
+  metrics: CompiledLogMetric[],
+  entries: LogEntry[]
+): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const metric of metrics) {
+    const value = evaluateLogMetric(metric, entries);
+    if (value !== undefined) values[metric.definition.name] = value;
+  }
+  return values;
+}
+
+/**
+ * One-line definition: "payment_declined: count where \"payment declined\"",
+ * "db_ms: avg of db_ms".
+ */
+export function describeLogMetric(definition: LogMetricDefinition): string {
+  const what = definition.type === "count" ? "count" : `${definition.type} of ${definition.attribute}`;
+  const where = definition.query ? ` where ${definition.query}` : "";
+  return `${definition.name}: ${what}${where}${definition.description ? ` — ${definition.description}` : ""}`;
+}
+
+/** Format a metric value: integers as-is, fractions to two decimals */
+export function formatLogMetricValue(value: number | undefined): string {
+  if (value === undefined) return "-";
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
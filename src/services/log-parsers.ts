@@ -0,0 +1,225 @@
+import type { LogEntry } from "../types/railway.js";
+
+/**
+ * Parser chain for raw log lines (Railway CLI output and plain-text app logs).
+ * The first parser that recognizes a line extracts its timestamp, level and
+ * fields; anything unrecognized is kept as plain text without a timestamp.
+ */
+
+export interface ParsedLine {
+  timestamp?: string;
+  message: string;
+  severity?: string;
+  attributes?: Record<string, unknown>;
+}
+
+export interface LineParser {
+  readonly name: string;
+  parse(line: string): ParsedLine | undefined;
+}
+
+const TIMESTAMP_KEYS = ["timestamp", "ts", "time", "@timestamp", "date", "datetime", "t"];
+const MESSAGE_KEYS = ["message", "msg", "log", "@m", "event"];
+const LEVEL_KEYS = ["severity", "level", "lvl", "levelname", "@l"];
+
+/**
+ * Normalize a timestamp value to ISO 8601. Accepts epoch seconds or
+ * milliseconds, RFC 3339, and "YYYY-MM-DD HH:MM:SS[,.]mmm" (taken as UTC when
+ * no offset is given, matching Railway's containers).
+ */
+export function parseLogTimestamp(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    const ms = value > 1e12 ? value : value * 1000;
+    const date = new Date(ms);
+    return date.getUTCFullYear() >= 2000 ? date.toISOString() : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d{10}(\.\d+)?$|^\d{13}$/.test(trimmed)) return parseLogTimestamp(Number(trimmed));
+
+  const match = trimmed.match(
+    /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2})(?:[.,](\d{1,9}))?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!match) return undefined;
+  const [, date, time, fraction, zone] = match;
+  const millis = fraction ? `.${fraction.padEnd(3, "0").slice(0, 3)}` : "";
+  const offset = !zone || zone.toUpperCase() === "Z" ? "Z" : zone.replace(/^([+-]\d{2})(\d{2})$/, "$1:$2");
+  const parsed = new Date(`${date}T${time}${millis}${offset}`);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function pick(fields: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (fields[key] !== undefined && fields[key] !== null && fields[key] !== "") return fields[key];
+  }
+  return undefined;
+}
+
+/** JSON lines, including `railway logs --json` output */
+export const jsonLineParser: LineParser = {
+  name: "json",
+  parse(line) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) return undefined;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return undefined;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+    const fields = parsed as Record<string, unknown>;
+    const message = pick(fields, MESSAGE_KEYS);
+    const level = pick(fields, LEVEL_KEYS);
+    return {
+      timestamp: parseLogTimestamp(pick(fields, TIMESTAMP_KEYS)),
+      message: typeof message === "string" ? message : line,
+      severity: level !== undefined ? String(level) : undefined,
+      attributes: fields,
+    };
+  },
+};
+
+const LOGFMT_PAIR = /([\w.@-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+/**
+ * Parse `key=value key2="quoted value"` pairs. Returns undefined unless the
+ * line is made of at least two pairs (so prose containing one "=" isn't logfmt).
+ */
+export function parseLogfmt(line: string): Record<string, string> | undefined {
+  const fields: Record<string, string> = {};
+  let covered = 0;
+  for (const match of line.matchAll(LOGFMT_PAIR)) {
+    const raw = match[2];
+    fields[match[1]] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, "$1") : raw;
+    covered += match[0].length;
+  }
+  const pairs = Object.keys(fields).length;
+  // Most of the line must be pairs, not free text
+  if (pairs < 2 || covered < line.replace(/\s+/g, "").length * 0.6) return undefined;
+  return fields;
+}
+
+/** logfmt: `time=2024-05-01T12:00:00Z level=error msg="db timeout" user=42` */
+export const logfmtLineParser: LineParser = {
+  name: "logfmt",
+  parse(line) {
+    const fields = parseLogfmt(line);
+    if (!fields) return undefined;
+    const message = pick(fields, MESSAGE_KEYS);
+    const level = pick(fields, LEVEL_KEYS);
+    return {
+      timestamp: parseLogTimestamp(pick(fields, TIMESTAMP_KEYS)),
+      message: typeof message === "string" ? message : line,
+      severity: typeof level === "string" ? level : undefined,
+      attributes: fields,
+    };
+  },
+};
+
+const MONTHS: Record<string, string> = {
+  Jan: "01", Feb: "02", Mar: "03", Apr: "04", May: "05", Jun: "06",
+  Jul: "07", Aug: "08", Sep: "09", Oct: "10", Nov: "11", Dec: "12",
+};
+
+// host ident user [10/Oct/2000:13:55:36 -0700] "GET /path HTTP/1.1" 200 2326 ["referer" "user-agent"]
+const COMMON_LOG =
+  /^(\S+) (\S+) (\S+) \[(\d{2})\/(\w{3})\/(\d{4}):(\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})\] "(\S+) (\S+)(?: (\S+))?" (\d{3}) (\d+|-)(?: "([^"]*)" "([^"]*)")?/;
+
+/** Apache/nginx common and combined log format */
+export const commonLogLineParser: LineParser = {
+  name: "common-log",
+  parse(line) {
+    const m = line.match(COMMON_LOG);
+    if (!m || !MONTHS[m[5]]) return undefined;
+    const status = parseInt(m[13], 10);
+    const attributes: Record<string, unknown> = {
+      remote_addr: m[1],
+      method: m[10],
+      path: m[11],
+      status,
+    };
+    if (m[3] !== "-") attributes.user = m[3];
+    if (m[12]) attributes.protocol = m[12];
+    if (m[14] !== "-") attributes.bytes = parseInt(m[14], 10);
+    if (m[15] !== undefined && m[15] !== "-") attributes.referer = m[15];
+    if (m[16] !== undefined && m[16] !== "-") attributes.user_agent = m[16];
+    return {
+      timestamp: parseLogTimestamp(`${m[6]}-${MONTHS[m[5]]}-${m[4]}T${m[7]}${m[8]}:${m[9]}`),
+      message: line,
+      severity: status >= 500 ? "error" : status >= 400 ? "warn" : undefined,
+      attributes,
+    };
+  },
+};
+
+const TIMESTAMP_PREFIX =
+  /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d{1,9})?\s?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s+(.*)$/is;
+
+/** Lines starting with an ISO 8601 / RFC 3339 timestamp (optionally bracketed) */
+export const timestampPrefixLineParser: LineParser = {
+  name: "timestamp-prefix",
+  parse(line) {
+    const m = line.match(TIMESTAMP_PREFIX);
+    if (!m) return undefined;
+    const timestamp = parseLogTimestamp(m[1]);
+    if (!timestamp) return undefined;
+    // The rest may itself be logfmt: "2024-05-01T12:00:00Z level=info msg=..."
+    const fields = parseLogfmt(m[2]);
+    const message = fields ? pick(fields, MESSAGE_KEYS) : undefined;
+    return {
+      timestamp,
+      message: typeof message === "string" ? message : m[2],
+      attributes: fields,
+    };
+  },
+};
+
+export const LINE_PARSERS: LineParser[] = [
+  jsonLineParser,
+  logfmtLineParser,
+  commonLogLineParser,
+  timestampPrefixLineParser,
+];
+
+/**
+ * Run a line through the parser chain. Unrecognized lines come back as plain
+ * text with no timestamp.
+ */
+export function parseLogLine(line: string): ParsedLine {
+  for (const parser of LINE_PARSERS) {
+    const parsed = parser.parse(line);
+    if (parsed) return parsed;
+  }
+  return { message: line };
+}
+
+/**
+ * Turn parsed lines (in output order) into log entries. Lines with no
+ * recoverable time take the timestamp of the nearest preceding line that has
+ * one (or the following line, at the start of the output) and are flagged
+ * `timestampInferred`. Only if no line has a time at all is "now" used.
+ */
+export function assignTimestamps(lines: ParsedLine[], fallback: () => string): LogEntry[] {
+  let next: string | undefined;
+  const following: Array<string | undefined> = new Array(lines.length);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].timestamp) next = lines[i].timestamp;
+    following[i] = next;
+  }
+
+  let previous: string | undefined;
+  return lines.map((line, i) => {
+    if (line.timestamp) previous = line.timestamp;
+    const timestamp = line.timestamp ?? previous ?? following[i];
+    const entry: LogEntry = {
+      timestamp: timestamp ?? fallback(),
+      message: line.message,
+      severity: line.severity || "info",
+      attributes: line.attributes,
+    };
+    if (!line.timestamp) entry.timestampInferred = true;
+    return entry;
+  });
+}
@@ -0,0 +1,161 @@
+import type { LogEntry, LogPattern, TimelineWindow } from "../types/railway.js";
+import { describeStack } from "./log-ingest.js";
+import { detectSeverity } from "./severity.js";
+
+/**
+ * Drain-style log templating: variable fragments are masked, then messages
+ * with the same token count and leading token are merged into a template when
+ * enough positions agree. Positions that differ become <*>.
+ *
+ * He et al., "Drain: An Online Log Parsing Approach with Fixed Depth Tree" (2017)
+ */
+
+// Fraction of token positions that must match for a message to join a cluster
+const SIMILARITY_THRESHOLD = 0.5;
+
+// Messages longer than this are templated on their leading tokens only
+const MAX_TOKENS = 64;
+
+const WILDCARD = "<*>";
+
+const MASKS: Array<[RegExp, string]> = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, "<TS>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<UUID>"],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d{1,5})?\b/g, "<IP>"],
+  [/\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*)?/gi, "<IP>"],
+  [/\b0x[0-9a-f]+\b/gi, "<HEX>"],
+  // Bare hex runs (hashes, object IDs) — only when they contain a digit, so words like "deadbeef" survive
+  [/\b(?=[a-f]*\d)[0-9a-f]{8,}\b/gi, "<HEX>"],
+  [/(?<![A-Za-z<])[-+]?\d+(?:\.\d+)?/g, "<NUM>"],
+];
+
+/**
+ * Replace variable fragments (timestamps, UUIDs, IPs, hex, numbers) with
+ * placeholders.
+ */
+export function maskLogMessage(message: string): string {
+  let masked = message;
+  for (const [pattern, replacement] of MASKS) {
+    masked = masked.replace(pattern, replacement);
+  }
+  return masked;
+}
+
+interface Cluster {
+  tokens: string[];
+  entry: LogEntry;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  sample: string;
+  severities: Record<string, number>;
+  windowCounts?: number[];
+}
+
+/**
+ * Exceptions are templated on their type, message and innermost frame, so
+ * the same error thrown from the same place forms one pattern regardless of
+ * the rest of the stack.
+ */
+function tokenizeEntry(entry: LogEntry): string[] {
+  const text = entry.stack ? describeStack(entry.stack) : entry.message;
+  return maskLogMessage(text).split(/\s+/).filter(Boolean).slice(0, MAX_TOKENS);
+}
+
+function similarity(template: string[], tokens: string[]): number {
+  let same = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (template[i] === tokens[i]) same++;
+  }
+  return tokens.length === 0 ? 1 : same / tokens.length;
+}
+
+/**
+ * Group key for the fixed-depth tree: token count, then the leading token
+ * (or a wildcard when the leading token is itself variable).
+ */
+function groupKey(tokens: string[]): string {
+  const first = tokens[0] ?? "";
+  const leading = /[<\d]/.test(first) ? WILDCARD : first;
+  return `${tokens.length}\u0000${leading}`;
+}
+
+function windowIndex(windows: TimelineWindow[], timestamp: string): number {
+  const t = new Date(timestamp).getTime();
+  return windows.findIndex(
+    (w) => t >= new Date(w.start).getTime() && t < new Date(w.end).getTime()
+  );
+}
+
+/**
+ * Cluster log entries into message templates. When timeline windows are
+ * given, each pattern also carries its per-window frequency.
+ * Returns patterns sorted by count, most frequent first.
+ */
+export function clusterLogPatterns(entries: LogEntry[], windows?: TimelineWindow[]): LogPattern[] {
+  const groups = new Map<string, Cluster[]>();
+  const clusters: Cluster[] = [];
+
+  for (const entry of entries) {
+    const tokens = tokenizeEntry(entry);
+    const key = groupKey(tokens);
+    let group = groups.get(key);
+    if (!group) {
+      group = [];
+      groups.set(key, group);
+    }
+
+    let best: Cluster | undefined;
+    let bestScore = 0;
+    for (const cluster of group) {
+      const score = similarity(cluster.tokens, tokens);
+      if (score > bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    let cluster: Cluster;
+    if (best && bestScore >= SIMILARITY_THRESHOLD) {
+      cluster = best;
+      cluster.tokens = cluster.tokens.map((t, i) => (t === tokens[i] ? t : WILDCARD));
+      cluster.count++;
+      if (entry.timestamp < cluster.firstSeen) cluster.firstSeen = entry.timestamp;
+      if (entry.timestamp > cluster.lastSeen) cluster.lastSeen = entry.timestamp;
+    } else {
+      cluster = {
+        tokens,
+        entry,
+        count: 1,
+        firstSeen: entry.timestamp,
+        lastSeen: entry.timestamp,
+        sample: entry.message,
+        severities: {},
+        windowCounts: windows ? new Array(windows.length).fill(0) : undefined,
+      };
+      group.push(cluster);
+      clusters.push(cluster);
+    }
+
+    const severity = detectSeverity(entry);
+    cluster.severities[severity] = (cluster.severities[severity] ?? 0) + 1;
+
+    if (windows && cluster.windowCounts) {
+      const i = windowIndex(windows, entry.timestamp);
+      if (i >= 0) cluster.windowCounts[i]++;
+    }
+  }
+
+  return clusters
+    .map((c): LogPattern => ({
+      template: c.tokens.join(" "),
+      count: c.count,
+      firstSeen: c.firstSeen,
+      lastSeen: c.lastSeen,
+      sample: c.sample,
+      severities: c.severities,
+      windowCounts: c.windowCounts,
+      stack: c.entry.stack,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,419 @@
+import type { LogEntry } from "../types/railway.js";
+import { parsePeriod } from "../utils/time.js";
+import { detectSeverity, parseSeverity, SEVERITY_RANK, type Severity } from "./severity.js";
+
+/**
+ * Structured log query language shared by `logs`, `logs --follow`, and
+ * `analyze --filter`.
+ *
+ *   timeout                     free text (case-insensitive substring of the message)
+ *   "connection reset"          quoted phrase
+ *   /ECONN(RESET|REFUSED)/i     regular expression on the message
+ *   level:error  level>=warn    severity (debug < info < warn < error < fatal)
+ *   @path:/api/*                attribute glob (* and ?), case-insensitive
+ *   @status>=500                numeric comparison (also >, <, <=)
+ *   @user.id:42                 nested attribute by dotted path
+ *   @path~^/api/v\d+/           regular expression on a field
+ *   message:*time*out*          message glob; deployment:<id> matches an ID prefix
+ *   since:15m  until:2024-05-01T12:00:00Z
+ *                               time bounds (relative to now, or ISO 8601)
+ *   -term  NOT term             negation
+ *   a b  a AND b  a OR b  (a OR b) c
+ *                               AND binds tighter than OR; juxtaposition is AND
+ */
+
+export type LogQueryNode =
+  | { kind: "and"; clauses: LogQueryNode[] }
+  | { kind: "or"; clauses: LogQueryNode[] }
+  | { kind: "not"; clause: LogQueryNode }
+  | { kind: "text"; value: string }
+  | { kind: "regex"; field: string; pattern: RegExp }
+  | { kind: "match"; field: string; value: string }
+  | { kind: "compare"; field: string; op: CompareOp; value: string }
+  | { kind: "time"; bound: "since" | "until"; ms: number };
+
+type CompareOp = ">" | ">=" | "<" | "<=";
+
+export class LogQueryError extends Error {
+  readonly position: number;
+
+  constructor(query: string, position: number, message: string) {
+    super(`Invalid log query: ${message}\n  ${query}\n  ${" ".repeat(position)}^`);
+    this.name = "LogQueryError";
+    this.position = position;
+  }
+}
+
+const BUILTIN_FIELDS: Record<string, string> = {
+  level: "level",
+  severity: "level",
+  message: "message",
+  msg: "message",
+  deployment: "deployment",
+};
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not"; pos: number }
+  | { type: "regex"; pos: number; pattern: string; flags: string }
+  | { type: "term"; pos: number; field?: string; op?: string; value: string; quoted: boolean };
+
+const FIELD_NAME = /^@?[A-Za-z_][\w.-]*$/;
+const OPERATORS = [">=", "<=", ">", "<", ":", "~"];
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch === "(" ? "lparen" : "rparen", pos: i });
+      i++;
+      continue;
+    }
+    if (ch === "-" && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ type: "not", pos: i });
+      i++;
+      continue;
+    }
+    if (ch === "/") {
+      const start = i;
+      let pattern = "";
+      i++;
+      while (i < query.length && query[i] !== "/") {
+        if (query[i] === "\\" && i + 1 < query.length) {
+          // Keep escapes for the RegExp; "\/" is a literal slash
+          pattern += query[i + 1] === "/" ? "/" : query[i] + query[i + 1];
+          i += 2;
+          continue;
+        }
+        pattern += query[i++];
+      }
+      if (i >= query.length) throw new LogQueryError(query, start, "unterminated regular expression");
+      i++;
+      let flags = "";
+      while (i < query.length && /[a-z]/.test(query[i])) flags += query[i++];
+      tokens.push({ type: "regex", pos: start, pattern, flags });
+      continue;
+    }
+
+    // A term: optional `field<op>` prefix, then a value that may contain quoted parts
+    const start = i;
+    let buffer = "";
+    let field: string | undefined;
+    let op: string | undefined;
+    let quoted = false;
+
+    while (i < query.length && !/[\s()]/.test(query[i])) {
+      if (query[i] === '"') {
+        const quoteStart = i;
+        i++;
+        while (i < query.length && query[i] !== '"') {
+          if (query[i] === "\\" && i + 1 < query.length) i++;
+          buffer += query[i++];
+        }
+        if (i >= query.length) throw new LogQueryError(query, quoteStart, "unterminated quote");
+        i++;
+        quoted = true;
+        continue;
+      }
+      if (field === undefined && !quoted) {
+        const matched = OPERATORS.find((o) => query.startsWith(o, i));
+        if (matched && FIELD_NAME.test(buffer)) {
+          field = buffer;
+          op = matched;
+          buffer = "";
+          i += matched.length;
+          continue;
+        }
+      }
+      buffer += query[i++];
+    }
+
+    // A trailing "word:" with nothing after it is just text (e.g. "ECONNREFUSED:")
+    if (field !== undefined && buffer === "" && !quoted) {
+      tokens.push({ type: "term", pos: start, value: query.slice(start, i), quoted: false });
+      continue;
+    }
+
+    if (field === undefined && !quoted && (buffer === "AND" || buffer === "OR" || buffer === "NOT")) {
+      tokens.push({ type: buffer === "AND" ? "and" : buffer === "OR" ? "or" : "not", pos: start });
+      continue;
+    }
+
+    tokens.push({ type: "term", pos: start, field, op, value: buffer, quoted });
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a query string into an AST. Throws LogQueryError with the position of
+ * the offending token on invalid syntax.
+ */
+export function parseLogQuery(query: string): LogQueryNode {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const endPos = () => (peek() ? peek().pos : query.length);
+
+  function parseOr(): LogQueryNode {
+    const clauses = [parseAnd()];
+    while (peek()?.type === "or") {
+      index++;
+      clauses.push(parseAnd());
+    }
+    return clauses.length === 1 ? clauses[0] : { kind: "or", clauses };
+  }
+
+  function parseAnd(): LogQueryNode {
+    const clauses = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.type === "or" || next.type === "rparen") break;
+      if (next.type === "and") index++;
+      clauses.push(parseUnary());
+    }
+    return clauses.length === 1 ? clauses[0] : { kind: "and", clauses };
+  }
+
+  function parseUnary(): LogQueryNode {
+    if (peek()?.type === "not") {
+      index++;
+      return { kind: "not", clause: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): LogQueryNode {
+    const token = peek();
+    if (!token) throw new LogQueryError(query, query.length, "expected a term");
+
+    if (token.type === "lparen") {
+      index++;
+      const inner = parseOr();
+      if (peek()?.type !== "rparen") throw new LogQueryError(query, endPos(), 'expected ")"');
+      index++;
+      return inner;
+    }
+    if (token.type === "regex") {
+      index++;
+      return { kind: "regex", field: "message", pattern: compileRegex(query, token.pos, token.pattern, token.flags) };
+    }
+    if (token.type === "term") {
+      index++;
+      return termToNode(query, token);
+    }
+    const text = token.type === "rparen" ? '")"' : token.type.toUpperCase();
+    throw new LogQueryError(query, token.pos, `unexpected ${text}`);
+  }
+
+  if (tokens.length === 0) return { kind: "and", clauses: [] };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new LogQueryError(query, tokens[index].pos, 'unexpected ")"');
+  }
+  return node;
+}
+
+function compileRegex(query: string, pos: number, pattern: string, flags: string): RegExp {
+  try {
+    return new RegExp(pattern, flags);
+  } catch (err) {
+    throw new LogQueryError(query, pos, err instanceof Error ? err.message : String(err));
+  }
+}
+
+function termToNode(query: string, token: Extract<Token, { type: "term" }>): LogQueryNode {
+  if (token.field === undefined || token.op === undefined) {
+    return { kind: "text", value: token.value };
+  }
+
+  if (token.field === "since" || token.field === "until") {
+    if (token.op !== ":") {
+      throw new LogQueryError(query, token.pos, `use ${token.field}:<time>`);
+    }
+    try {
+      return { kind: "time", bound: token.field, ms: new Date(parsePeriod(token.value).start).getTime() };
+    } catch {
+      throw new LogQueryError(query, token.pos, `invalid time "${token.value}" (use e.g. 15m or an ISO date)`);
+    }
+  }
+
+  let field: string;
+  if (token.field.startsWith("@")) {
+    field = token.field;
+    if (field.length === 1) throw new LogQueryError(query, token.pos, "missing attribute name after @");
+  } else if (BUILTIN_FIELDS[token.field]) {
+    field = BUILTIN_FIELDS[token.field];
+  } else {
+    throw new LogQueryError(
+      query,
+      token.pos,
+      `unknown field "${token.field}". Prefix attributes with @ (@${token.field}${token.op}...) or quote free text`
+    );
+  }
+
+  if (token.op === "~") {
+    return { kind: "regex", field, pattern: compileRegex(query, token.pos, token.value, "") };
+  }
+  if (field === "level" && !/[*?]/.test(token.value) && !parseSeverity(token.value)) {
+    throw new LogQueryError(
+      query,
+      token.pos,
+      `unknown level "${token.value}" (use trace, debug, info, warn, error or fatal)`
+    );
+  }
+  if (token.op === ":") {
+    return { kind: "match", field, value: token.value };
+  }
+  return { kind: "compare", field, op: token.op as CompareOp, value: token.value };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve an attribute by exact key, then by dotted path into nested objects.
+ */
+export function lookupAttribute(attributes: Record<string, unknown> | undefined, path: string): unknown {
+  if (!attributes) return undefined;
+  if (path in attributes) return attributes[path];
+
+  let current: unknown = attributes;
+  for (const part of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/**
+ * Values a field resolves to for an entry. Array attributes yield each
+ * element so `@tags:db` matches `tags: ["db", "slow"]`.
+ */
+function fieldValues(entry: LogEntry, field: string): string[] {
+  if (field === "level") return [detectSeverity(entry)];
+  if (field === "message") return [entry.message];
+  if (field === "deployment") return entry.deploymentId ? [entry.deploymentId] : [];
+
+  const value = lookupAttribute(entry.attributes, field.slice(1));
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items.map((v) => (typeof v === "object" ? JSON.stringify(v) : String(v)));
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\/]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "is");
+}
+
+function matchValue(field: string, actual: string, expected: string): boolean {
+  if (/[*?]/.test(expected)) return globToRegExp(expected).test(actual);
+  if (field === "level") return actual === parseSeverity(expected);
+  if (field === "message") return actual.toLowerCase().includes(expected.toLowerCase());
+  if (field === "deployment") return actual.startsWith(expected);
+  return actual.toLowerCase() === expected.toLowerCase();
+}
+
+function compareValues(field: string, actual: string, op: CompareOp, expected: string): boolean {
+  let diff: number;
+  if (field === "level") {
+    const b = parseSeverity(expected);
+    if (!b) return false;
+    diff = SEVERITY_RANK[actual as Severity] - SEVERITY_RANK[b];
+  } else {
+    const a = Number(actual);
+    const b = Number(expected);
+    diff =
+      actual !== "" && expected !== "" && Number.isFinite(a) && Number.isFinite(b)
+        ? a - b
+        : actual.localeCompare(expected);
+  }
+  if (op === ">") return diff > 0;
+  if (op === ">=") return diff >= 0;
+  if (op === "<") return diff < 0;
+  return diff <= 0;
+}
+
+export function matchesLogQuery(entry: LogEntry, node: LogQueryNode): boolean {
+  switch (node.kind) {
+    case "and":
+      return node.clauses.every((c) => matchesLogQuery(entry, c));
+    case "or":
+      return node.clauses.some((c) => matchesLogQuery(entry, c));
+    case "not":
+      return !matchesLogQuery(entry, node.clause);
+    case "text":
+      return entry.message.toLowerCase().includes(node.value.toLowerCase());
+    case "regex":
+      return fieldValues(entry, node.field).some((v) => {
+        node.pattern.lastIndex = 0;
+        return node.pattern.test(v);
+      });
+    case "match":
+      return fieldValues(entry, node.field).some((v) => matchValue(node.field, v, node.value));
+    case "compare":
+      return fieldValues(entry, node.field).some((v) =>
+        compareValues(node.field, v, node.op, node.value)
+      );
+    case "time": {
+      const t = new Date(entry.timestamp).getTime();
+      return node.bound === "since" ? t >= node.ms : t <= node.ms;
+    }
+  }
+}
+
+/**
+ * Parse a query once and return a predicate over log entries.
+ */
+export function compileLogQuery(query: string): (entry: LogEntry) => boolean {
+  const node = parseLogQuery(query);
+  return (entry) => matchesLogQuery(entry, node);
+}
+
+/**
+ * Parse a user's --filter. Input that isn't valid query syntax (e.g. "/api" or
+ * "error: timeout", which were plain substring filters before the query
+ * language) is matched as literal text in the message instead of rejected;
+ * `fallback` carries the parse error so the caller can say so.
+ */
+export function parseLogFilter(query: string): { node: LogQueryNode; fallback?: LogQueryError } {
+  try {
+    return { node: parseLogQuery(query) };
+  } catch (err) {
+    if (!(err instanceof LogQueryError)) throw err;
+    return { node: { kind: "text", value: query.trim() }, fallback: err };
+  }
+}
+
+export function compileLogFilter(query: string): (entry: LogEntry) => boolean {
+  const { node } = parseLogFilter(query);
+  return (entry) => matchesLogQuery(entry, node);
+}
+
+/**
+ * Notice for a filter that fell back to literal text.
+ */
+export function describeLogFilterFallback(err: LogQueryError): string {
+  return `--filter is not a valid query, so it is matched as literal text (quote it to make that explicit):\n${err.message}`;
+}
@@ -0,0 +1,236 @@
+import { createClient, type Client } from "graphql-ws";
+import WebSocket from "ws";
+import type { LogEntry } from "../types/railway.js";
+import { getToken } from "./auth.js";
+import { toLogAttributes, type LogAttribute } from "./railway-client.js";
+import { detectSeverity } from "./severity.js";
+
+/**
+ * Live log tailing over Railway's GraphQL-over-WebSocket subscriptions
+ * (graphql-transport-ws protocol).
+ *
+ * Set RAILWAY_WS_ENDPOINT to point the stream at a local stand-in server.
+ */
+
+const RAILWAY_WS_ENDPOINT = "wss://backboard.railway.com/graphql/v2";
+
+// Reconnect forever with capped exponential backoff: a tail should survive
+// laptop sleep and flaky Wi-Fi until the user stops it.
+const MAX_RETRY_WAIT_MS = 30_000;
+const KEEP_ALIVE_MS = 15_000;
+// Times in a row the server may end the subscription before the stream gives up
+const MAX_RESUBSCRIBES = 3;
+
+// How many recent entries are remembered to suppress duplicates on resume
+const DEDUPE_MEMORY = 5_000;
+
+const ENVIRONMENT_LOGS_SUBSCRIPTION = `
+  subscription streamEnvironmentLogs($environmentId: String!, $filter: String, $beforeLimit: Int) {
+    environmentLogs(environmentId: $environmentId, filter: $filter, beforeLimit: $beforeLimit) {
+      timestamp
+      message
+      severity
+      tags {
+        deploymentId
+      }
+      attributes {
+        key
+        value
+      }
+    }
+  }
+`;
+
+const DEPLOYMENT_LOGS_SUBSCRIPTION = `
+  subscription streamDeploymentLogs($deploymentId: String!, $filter: String, $limit: Int) {
+    deploymentLogs(deploymentId: $deploymentId, filter: $filter, limit: $limit) {
+      timestamp
+      message
+      severity
+      attributes {
+        key
+        value
+      }
+    }
+  }
+`;
+
+interface StreamedLog {
+  timestamp: string;
+  message: string;
+  severity?: string;
+  tags?: { deploymentId?: string };
+  attributes?: LogAttribute[];
+}
+
+export interface LogStreamOptions {
+  environmentId: string;
+  /** Scope environment logs to one service */
+  serviceId?: string;
+  /** Stream a single deployment's logs instead of the environment's */
+  deploymentId?: string;
+  /** Number of recent entries to replay when the stream opens */
+  backfill?: number;
+}
+
+export interface LogStreamHandlers {
+  onEntry: (entry: LogEntry) => void;
+  /** "resubscribing": the connection is up but the server ended the subscription */
+  onStatus?: (status: "connected" | "reconnecting" | "resubscribing") => void;
+  onError?: (err: unknown) => void;
+  /** The server kept ending the subscription; the stream has stopped */
+  onEnd?: () => void;
+}
+
+/**
+ * Suppresses entries already emitted. A reconnected subscription replays
+ * recent history, so anything seen before (or older than everything we still
+ * remember) is dropped.
+ */
+export function createLogDeduper(memory: number = DEDUPE_MEMORY): (entry: LogEntry) => boolean {
+  const seen = new Map<string, number>();
+
+  return (entry) => {
+    const key = `${entry.timestamp}\n${entry.message}`;
+    if (seen.has(key)) return false;
+
+    const ts = new Date(entry.timestamp).getTime();
+    if (seen.size >= memory) {
+      const oldest = seen.values().next().value as number;
+      if (ts < oldest) return false;
+      seen.delete(seen.keys().next().value as string);
+    }
+    seen.set(key, ts);
+    return true;
+  };
+}
+
+/**
+ * Open a live log stream. Reconnects on drop, subscribes again when the
+ * server ends the subscription, and resumes without emitting duplicate lines.
+ * Returns a function that closes the stream.
+ */
+export async function streamLogs(
+  options: LogStreamOptions,
+  handlers: LogStreamHandlers
+): Promise<() => void> {
+  const token = await getToken();
+  const url = process.env.RAILWAY_WS_ENDPOINT || RAILWAY_WS_ENDPOINT;
+
+  // Railway authenticates the upgrade request, so the token goes in the headers
+  class AuthenticatedWebSocket extends WebSocket {
+    constructor(address: string | URL, protocols?: string | string[]) {
+      super(address, protocols, { headers: { Authorization: `Bearer ${token}` } });
+    }
+  }
+
+  let connectedOnce = false;
+  const client: Client = createClient({
+    url,
+    webSocketImpl: AuthenticatedWebSocket,
+    connectionParams: { Authorization: `Bearer ${token}` },
+    keepAlive: KEEP_ALIVE_MS,
+    retryAttempts: Infinity,
+    shouldRetry: () => true,
+    retryWait: async (retries) => {
+      handlers.onStatus?.("reconnecting");
+      const wait = Math.min(MAX_RETRY_WAIT_MS, 1000 * 2 ** retries) * (0.5 + Math.random() / 2);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    },
+    on: {
+      connected: () => {
+        handlers.onStatus?.("connected");
+        connectedOnce = true;
+      },
+      error: (err) => {
+        if (connectedOnce) return; // reconnects are reported via onStatus
+        handlers.onError?.(err);
+      },
+    },
+  });
+
+  const isNew = createLogDeduper();
+  // Returns how many entries were new
+  const emit = (logs: StreamedLog[] | undefined): number => {
+    let emitted = 0;
+    for (const log of logs ?? []) {
+      const entry: LogEntry = {
+        timestamp: log.timestamp,
+        message: log.message,
+        severity: log.severity || "info",
+        attributes: toLogAttributes(log.attributes),
+        deploymentId: log.tags?.deploymentId ?? options.deploymentId,
+      };
+      entry.severity = detectSeverity(entry);
+      if (isNew(entry)) {
+        handlers.onEntry(entry);
+        emitted++;
+      }
+    }
+    return emitted;
+  };
+
+  let closed = false;
+  let endedInARow = 0;
+  let unsubscribe: () => void = () => {};
+
+  const sink = {
+    next: (result: { data?: Record<string, unknown> | null; errors?: ReadonlyArray<{ message: string }> }) => {
+      if (result.errors && result.errors.length > 0) {
+        handlers.onError?.(new Error(result.errors.map((e) => e.message).join("; ")));
+        return;
+      }
+      const data = result.data ?? {};
+      // The backfill replayed on resubscribing is all duplicates, so it doesn't count as progress
+      if (emit((data.deploymentLogs ?? data.environmentLogs) as StreamedLog[] | undefined) > 0) endedInARow = 0;
+    },
+    error: (err: unknown) => handlers.onError?.(err),
+    // The server ended the subscription (e.g. a restart on its side): subscribe
+    // again, and give up once it keeps ending without delivering anything
+    complete: () => {
+      if (closed) return;
+      if (endedInARow >= MAX_RESUBSCRIBES) {
+        handlers.onEnd?.();
+        return;
+      }
+      handlers.onStatus?.("resubscribing");
+      const wait = Math.min(MAX_RETRY_WAIT_MS, 1000 * 2 ** endedInARow);
+      endedInARow++;
+      setTimeout(() => {
+        if (!closed) subscribe();
+      }, wait);
+    },
+  };
+
+  const subscribe = () => {
+    unsubscribe = options.deploymentId
+      ? client.subscribe(
+          {
+            query: DEPLOYMENT_LOGS_SUBSCRIPTION,
+            variables: {
+              deploymentId: options.deploymentId,
+              limit: options.backfill,
+            },
+          },
+          sink
+        )
+      : client.subscribe(
+          {
+            query: ENVIRONMENT_LOGS_SUBSCRIPTION,
+            variables: {
+              environmentId: options.environmentId,
+              filter: options.serviceId ? `@service:${options.serviceId}` : undefined,
+              beforeLimit: options.backfill,
+            },
+          },
+          sink
+        );
+  };
+  subscribe();
+
+  return () => {
+    closed = true;
+    unsubscribe();
+    void client.dispose();
+  };
+}
@@ -1,5 +1,9 @@
-import { execSync } from "child_process";
-import type { LogEntry } from "../types/railway.js";
+import { execFileSync } from "child_process";
+import type { LogBatch, LogEntry, LogSource } from "../types/railway.js";
+import { compileLogFilter } from "./log-query.js";
+import { mergeLogBatches } from "./log-merge.js";
+import { ingestLogs } from "./log-ingest.js";
+import { assignTimestamps, parseLogLine } from "./log-parsers.js";
 
 export interface FetchLogsOptions {
   serviceId?: string;
@@ -14,6 +18,37 @@ export interface FetchLogsOptions {
   build?: boolean;
 }
 
+/**
+ * Apply time bounds, the log query (see log-query.ts), and the line count to
+ * fetched log entries. Shared by every log backend so the same options behave
+ * identically.
+ */
+export function applyLogFilters(
+  entries: LogEntry[],
+  options: Pick<FetchLogsOptions, "since" | "until" | "filter" | "lines">
+): LogEntry[] {
+  let result = entries;
+
+  if (options.since) {
+    const sinceMs = new Date(options.since).getTime();
+    result = result.filter((e) => new Date(e.timestamp).getTime() >= sinceMs);
+  }
+  if (options.until) {
+    const untilMs = new Date(options.until).getTime();
+    result = result.filter((e) => new Date(e.timestamp).getTime() <= untilMs);
+  }
+
+  if (options.filter) {
+    result = result.filter(compileLogFilter(options.filter));
+  }
+
+  if (options.lines && result.length > options.lines) {
+    result = result.slice(-options.lines);
+  }
+
+  return result;
+}
+
 /**
  * Fetch logs using the Railway CLI.
  *
@@ -22,7 +57,7 @@ export interface FetchLogsOptions {
  * are handled client-side after fetching.
  */
 export function fetchLogs(options: FetchLogsOptions): LogEntry[] {
-  const args: string[] = ["railway", "logs"];
+  const args: string[] = ["logs"];
 
   // Positional deployment ID — scopes logs to a specific deployment
   if (options.deploymentId) {
@@ -48,39 +83,23 @@ export function fetchLogs(options: FetchLogsOptions): LogEntry[] {
   args.push("--json");
 
   try {
-    const output = execSync(args.join(" "), {
+    // Arguments are passed as an argv array (no shell), so names with spaces are safe
+    const output = execFileSync("railway", args, {
       stdio: "pipe",
       encoding: "utf-8",
       timeout: 30_000,
       env: process.env,
     });
 
-    let entries = parseLogOutput(output);
-
-    // Client-side time filtering (CLI doesn't support --since/--until)
-    if (options.since) {
-      const sinceMs = new Date(options.since).getTime();
-      entries = entries.filter((e) => new Date(e.timestamp).getTime() >= sinceMs);
-    }
-    if (options.until) {
-      const untilMs = new Date(options.until).getTime();
-      entries = entries.filter((e) => new Date(e.timestamp).getTime() <= untilMs);
-    }
+    const source: LogSource = options.build ? "build" : "deploy";
+    const entries = parseLogOutput(output).map((e) => ({
+      ...e,
+      source,
+      deploymentId: e.deploymentId ?? options.deploymentId,
+    }));
 
-    // Client-side text filtering (CLI doesn't support --filter)
-    if (options.filter) {
-      const filterLower = options.filter.toLowerCase();
-      entries = entries.filter((e) =>
-        e.message.toLowerCase().includes(filterLower)
-      );
-    }
-
-    // Client-side line limit (CLI doesn't support --lines)
-    if (options.lines && entries.length > options.lines) {
-      entries = entries.slice(-options.lines);
-    }
-
-    return entries;
+    // Client-side filtering (CLI doesn't support --since/--until/--filter/--lines)
+    return applyLogFilters(entries, options);
   } catch (err) {
     const message =
       err instanceof Error ? err.message : "Unknown error fetching logs";
@@ -101,7 +120,7 @@ export function fetchLogsForDeployments(
   deploymentIds: string[],
   options?: { build?: boolean; since?: string; until?: string }
 ): LogEntry[] {
-  const allEntries: LogEntry[] = [];
+  const batches: LogBatch[] = [];
 
   for (const id of deploymentIds) {
     try {
@@ -111,18 +130,20 @@ export function fetchLogsForDeployments(
         since: options?.since,
         until: options?.until,
       });
-      allEntries.push(...entries);
+      // The CLI has no line limit, so these batches are never truncated
+      batches.push({
+        deploymentId: id,
+        source: options?.build ? "build" : "deploy",
+        entries,
+        lineCount: entries.length,
+      });
     } catch {
       // Individual deployment log fetch may fail — continue with others
     }
   }
 
   // Sort by timestamp and deduplicate
-  allEntries.sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
-  return allEntries;
+  return mergeLogBatches(batches).entries;
 }
 
 /**
@@ -145,27 +166,7 @@ export function fetchAllLogs(options: Omit<FetchLogsOptions, "build">): {
 }
 
 function parseLogOutput(output: string): LogEntry[] {
-  const entries: LogEntry[] = [];
   const lines = output.trim().split("\n").filter(Boolean);
-
-  for (const line of lines) {
-    try {
-      const parsed = JSON.parse(line);
-      entries.push({
-        timestamp: parsed.timestamp || parsed.ts || new Date().toISOString(),
-        message: parsed.message || parsed.msg || parsed.log || line,
-        severity: parsed.severity || parsed.level || "info",
-        attributes: parsed,
-      });
-    } catch {
-      // Non-JSON log line
-      entries.push({
-        timestamp: new Date().toISOString(),
-        message: line,
-        severity: "info",
-      });
-    }
-  }
-
-  return entries;
+  const now = new Date().toISOString();
+  return ingestLogs(assignTimestamps(lines.map(parseLogLine), () => now));
 }
@@ -1,137 +1,135 @@
 import type {
-  MetricResult,
-  MetricSummary,
   MetricValue,
   ServiceHealthReport,
   LogEntry,
-  DeploymentNode,
-  HttpMetricsResponse,
+  LogBatch,
+  BuildReport,
   HttpMetrics,
-  HttpLatencySummary,
-  HttpDurationSample,
-  HttpStatusBucket,
+  HttpRouteFilter,
+  HttpRouteMetrics,
   TimelineWindow,
+  LogMetricDefinition,
 } from "../types/railway.js";
-import { fetchAllMetrics, fetchDeployments, fetchHttpMetrics, fetchDeploymentLogs, fetchBuildLogs } from "./railway-client.js";
+import {
+  fetchAllMetrics,
+  fetchDeploymentsSince,
+  fetchHttpMetrics,
+  fetchLogBatch,
+} from "./railway-client.js";
+import { assignActiveIntervals, deploymentsInWindow } from "./deployments.js";
+import { buildReplicaBreakdown, maxMetricSeries, mergeMetricSeries } from "./replicas.js";
+import { summarizeHttpMetrics, summarizeMetric } from "./summarize.js";
+import { computeReplicaUtilization } from "./utilization.js";
+import { describeLogFilterFallback, matchesLogQuery, parseLogFilter } from "./log-query.js";
+import { clusterLogPatterns } from "./log-patterns.js";
+import { mergeLogBatches } from "./log-merge.js";
+import type { Redactor } from "./redaction.js";
+import { diagnoseBuild } from "./build-diagnostics.js";
+import { DEFAULT_DEPLOY_WINDOW_MS, deploymentsLiveIn, diffDeployment } from "./deploy-diff.js";
+import { compileLogMetrics, evaluateLogMetrics, type CompiledLogMetric } from "./log-metrics.js";
+import { isErrorEntry } from "./severity.js";
+import {
+  defaultAnomalyDetection,
+  describeAnomalyDetection,
+  detectAnomalies,
+  parseAnomalyDetection,
+  TIMELINE_SIGNALS,
+  type AnomalyDetection,
+} from "./anomaly.js";
+import {
+  attachTracesToTimeline,
+  DEFAULT_CORRELATION_KEYS,
+  groupByCorrelation,
+  summarizeTraces,
+} from "./tracing.js";
 import { calculateSampleRate } from "../utils/time.js";
+import { describeError, NotFoundError } from "./errors.js";
 
 /**
- * Summarize a list of metric values into a MetricSummary.
+ * Build route filters from --path/--method options. A path may carry its own
+ * method prefix (e.g. "POST /api/orders"), which takes precedence over --method.
  */
-function summarizeMetric(
-  measurement: string,
-  values: MetricValue[]
-): MetricSummary {
-  if (values.length === 0) {
-    return {
-      measurement,
-      avg: 0,
-      min: 0,
-      max: 0,
-      latest: 0,
-      dataPoints: 0,
-      values: [],
-    };
-  }
-
-  const nums = values.map((v) => v.value);
-  const sum = nums.reduce((a, b) => a + b, 0);
-
-  return {
-    measurement,
-    avg: sum / nums.length,
-    min: Math.min(...nums),
-    max: Math.max(...nums),
-    latest: nums[nums.length - 1],
-    dataPoints: nums.length,
-    values,
-  };
+export function buildRouteFilters(paths: string[] = [], method?: string): HttpRouteFilter[] {
+  return paths.map((raw) => {
+    const match = raw.trim().match(/^([A-Za-z]+)\s+(\S+)$/);
+    if (match) {
+      return { method: match[1].toUpperCase(), path: match[2] };
+    }
+    return { method: method?.toUpperCase(), path: raw.trim() };
+  });
 }
 
-function findMetric(
-  metrics: MetricResult[],
-  measurement: string
-): MetricValue[] {
-  const found = metrics.find((m) => m.measurement === measurement);
-  return found?.values ?? [];
+function routeLabel(filter: HttpRouteFilter): string {
+  return [filter.method ?? "*", filter.path ?? "*"].join(" ");
 }
 
 /**
- * Summarize a single latency percentile from duration samples.
+ * Rank routes worst-first, by peak p99 latency or by 5xx count.
  */
-function summarizePercentile(
-  samples: HttpDurationSample[],
-  key: keyof Pick<HttpDurationSample, "p50" | "p90" | "p95" | "p99">
-): HttpLatencySummary {
-  if (samples.length === 0) {
-    return { avg: 0, min: 0, max: 0, latest: 0, dataPoints: 0 };
-  }
-
-  const values = samples.map((s) => s[key]);
-  const sum = values.reduce((a, b) => a + b, 0);
-
-  return {
-    avg: sum / values.length,
-    min: Math.min(...values),
-    max: Math.max(...values),
-    latest: values[values.length - 1],
-    dataPoints: values.length,
-  };
+export function rankRoutes(
+  routes: HttpRouteMetrics[],
+  by: "p99" | "5xx" = "p99"
+): HttpRouteMetrics[] {
+  return [...routes].sort((a, b) =>
+    by === "p99"
+      ? b.latency.p99.max - a.latency.p99.max || b.errors5xx - a.errors5xx
+      : b.errors5xx - a.errors5xx || b.latency.p99.max - a.latency.p99.max
+  );
 }
 
 /**
- * Summarize HTTP metrics into latency percentiles and status code buckets.
+ * Fetch and summarize HTTP metrics for each route filter. Routes whose
+ * metrics can't be fetched are reported in `failures` rather than thrown.
  */
-function summarizeHttpMetrics(response: HttpMetricsResponse): HttpMetrics {
-  const samples = response.httpDurationMetrics.samples;
-
-  // Aggregate status codes into buckets (2xx, 3xx, 4xx, 5xx)
-  const bucketMap = new Map<string, { count: number; codes: Record<number, number> }>();
-
-  let totalRequests = 0;
-  for (const group of response.httpMetricsGroupedByStatus) {
-    const code = group.statusCode;
-    const bucket = `${Math.floor(code / 100)}xx`;
-    const total = group.samples.reduce((sum, s) => sum + s.value, 0);
-    totalRequests += total;
-
-    if (!bucketMap.has(bucket)) {
-      bucketMap.set(bucket, { count: 0, codes: {} });
-    }
-    const entry = bucketMap.get(bucket)!;
-    entry.count += total;
-    entry.codes[code] = (entry.codes[code] || 0) + total;
-  }
-
-  const statusCodes: HttpStatusBucket[] = Array.from(bucketMap.entries())
-    .map(([bucket, data]) => ({ bucket, count: data.count, codes: data.codes }))
-    .sort((a, b) => a.bucket.localeCompare(b.bucket));
-
-  // Build flat status code samples for timeline correlation
-  const statusCodeSamples: Array<{ ts: number; statusCode: number; count: number }> = [];
-  for (const group of response.httpMetricsGroupedByStatus) {
-    for (const s of group.samples) {
-      statusCodeSamples.push({ ts: s.ts, statusCode: group.statusCode, count: s.value });
-    }
-  }
+export async function collectRouteMetrics(
+  environmentId: string,
+  serviceId: string,
+  startDate: string,
+  endDate: string,
+  stepSeconds: number | undefined,
+  filters: HttpRouteFilter[]
+): Promise<{ routes: HttpRouteMetrics[]; failures: string[] }> {
+  const failures: string[] = [];
+
+  const results = await Promise.all(
+    filters.map(async (filter): Promise<HttpRouteMetrics | null> => {
+      const route = routeLabel(filter);
+      try {
+        const response = await fetchHttpMetrics(
+          environmentId,
+          serviceId,
+          startDate,
+          endDate,
+          stepSeconds,
+          filter
+        );
+        const summary = summarizeHttpMetrics(response);
+        const errors5xx = summary.statusCodes.find((b) => b.bucket === "5xx")?.count ?? 0;
+        return {
+          route,
+          method: filter.method,
+          path: filter.path,
+          latency: summary.latency,
+          statusCodes: summary.statusCodes,
+          totalRequests: summary.totalRequests,
+          errors5xx,
+          errorRate: summary.totalRequests > 0 ? errors5xx / summary.totalRequests : 0,
+        };
+      } catch (err) {
+        failures.push(`HTTP metrics for ${route} unavailable: ${describeError(err).message}`);
+        return null;
+      }
+    })
+  );
 
-  return {
-    latency: {
-      p50: summarizePercentile(samples, "p50"),
-      p90: summarizePercentile(samples, "p90"),
-      p95: summarizePercentile(samples, "p95"),
-      p99: summarizePercentile(samples, "p99"),
-    },
-    statusCodes,
-    totalRequests,
-    latencySamples: samples,
-    statusCodeSamples,
-  };
+  const routes = results.filter((r): r is HttpRouteMetrics => r !== null);
+  return { routes: rankRoutes(routes), failures };
 }
 
 /**
  * Build a correlated timeline by dividing the analysis period into windows
- * and aggregating all signal types per window.
+ * and aggregating all signal types per window, including any user-defined
+ * log metrics, then flagging anomalous windows (see anomaly.ts).
  */
 export function buildCorrelationTimeline(
   startDate: string,
@@ -139,7 +137,9 @@ export function buildCorrelationTimeline(
   cpuValues: MetricValue[],
   memoryValues: MetricValue[],
   http: HttpMetrics | undefined,
-  logs: LogEntry[]
+  logs: LogEntry[],
+  logMetrics: CompiledLogMetric[] = [],
+  detection: AnomalyDetection = defaultAnomalyDetection()
 ): TimelineWindow[] {
   // All Railway API timestamps are epoch seconds
   const startSec = Math.floor(new Date(startDate).getTime() / 1000);
@@ -152,14 +152,7 @@ export function buildCorrelationTimeline(
   const windowSec = rangeSec / bucketCount;
 
   // Pre-filter error logs
-  const errorLogs = logs.filter(
-    (l) =>
-      l.severity === "error" ||
-      l.severity === "ERROR" ||
-      l.message.toLowerCase().includes("error") ||
-      l.message.toLowerCase().includes("exception") ||
-      l.message.toLowerCase().includes("fatal")
-  );
+  const errorLogs = logs.filter(isErrorEntry);
 
   // Build windows
   const windows: TimelineWindow[] = [];
@@ -203,12 +196,13 @@ export function buildCorrelationTimeline(
     }
 
     // Error logs in window (log timestamps are ISO strings)
-    const errorLogCount = errorLogs.filter((l) => {
+    const inWindow = (l: LogEntry) => {
       const t = new Date(l.timestamp).getTime() / 1000;
       return t >= wStart && t < wEnd;
-    }).length;
+    };
+    const errorLogCount = errorLogs.filter(inWindow).length;
 
-    windows.push({
+    const window: TimelineWindow = {
       start: new Date(wStart * 1000).toISOString(),
       end: new Date(wEnd * 1000).toISOString(),
       cpu,
@@ -218,33 +212,26 @@ export function buildCorrelationTimeline(
       errors5xx,
       errorLogs: errorLogCount,
       isAnomaly: false, // will be set below
-    });
-  }
-
-  // Detect anomalies: any metric > mean + 2*stddev
-  const metricsToCheck: Array<keyof Pick<TimelineWindow, "cpu" | "memoryMb" | "p99" | "errors5xx" | "errorLogs">> = [
-    "cpu", "memoryMb", "p99", "errors5xx", "errorLogs",
-  ];
-
-  for (const key of metricsToCheck) {
-    const vals = windows.map((w) => w[key] as number);
-    const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
-    const variance = vals.reduce((s, v) => s + (v - mean) ** 2, 0) / vals.length;
-    const stddev = Math.sqrt(variance);
-    const threshold = mean + 2 * stddev;
-
-    if (stddev > 0) {
-      for (const w of windows) {
-        if ((w[key] as number) > threshold) {
-          w.isAnomaly = true;
-        }
-      }
+    };
+    if (logMetrics.length > 0) {
+      window.custom = evaluateLogMetrics(logMetrics, logs.filter(inWindow));
     }
+    windows.push(window);
   }
 
+  detectAnomalies(windows, detection, logMetrics.map((m) => m.definition.name));
+
   return windows;
 }
 
+// Failed builds diagnosed per report (each may fetch a baseline build's logs)
+const MAX_BUILD_REPORTS = 3;
+
+// Most recent cutovers given a before/after verdict per report
+const MAX_DEPLOY_DIFFS = 10;
+// Metric samples wanted on each side of a cutover when sizing the window
+const DEPLOY_WINDOW_SAMPLES = 5;
+
 /**
  * Collect all service health data: metrics, deployments, and logs.
  */
@@ -258,6 +245,17 @@ export async function collectServiceHealth(options: {
   endDate: string;
   logLines?: number;
   logFilter?: string;
+  routes?: HttpRouteFilter[];
+  /** Log attributes that identify a request; defaults to common request/trace ID keys */
+  correlationKeys?: string[];
+  /** User-defined log metrics added to each timeline window */
+  logMetrics?: LogMetricDefinition[];
+  /** Redacts secrets and PII from log entries before anything is built from them */
+  redactor?: Redactor;
+  /** `--detector` spec choosing the anomaly detector per timeline signal */
+  anomalyDetectors?: string;
+  /** Time compared either side of each deployment's cutover; sized to the sample rate by default */
+  deployWindowMs?: number;
 }): Promise<ServiceHealthReport> {
   const {
     projectId,
@@ -269,69 +267,124 @@ export async function collectServiceHealth(options: {
     endDate,
     logLines,
     logFilter,
+    routes,
+    correlationKeys = DEFAULT_CORRELATION_KEYS,
+    logMetrics = [],
+    redactor,
+    anomalyDetectors,
+    deployWindowMs,
   } = options;
 
+  // Parse everything up front: a typo in a log metric query or detector fails before any API calls,
+  // while an unparseable --filter falls back to literal text and is reported as a warning
+  const filter = logFilter ? parseLogFilter(logFilter) : undefined;
+  const compiledLogMetrics = compileLogMetrics(logMetrics);
+  const detection = parseAnomalyDetection(anomalyDetectors, [
+    ...TIMELINE_SIGNALS,
+    ...logMetrics.map((m) => m.name),
+  ]);
   const sampleRate = calculateSampleRate(startDate, endDate);
+  const warnings: string[] = [];
+  if (filter?.fallback) warnings.push(describeLogFilterFallback(filter.fallback));
 
-  // Fetch metrics, deployments, and HTTP metrics in parallel
-  const [metricsResponse, deploymentsResponse, httpMetricsResponse] = await Promise.all([
+  // Fetch metrics, deployments, and HTTP metrics in parallel.
+  // HTTP metrics come from the internal API and are optional — report why they're missing.
+  const [metricsResponse, deploymentHistory, httpMetricsResponse, routeMetrics] = await Promise.all([
     fetchAllMetrics(environmentId, serviceId, startDate, endDate, sampleRate),
-    fetchDeployments(projectId, environmentId, serviceId, 10),
-    fetchHttpMetrics(environmentId, serviceId, startDate, endDate, sampleRate).catch(() => null),
+    fetchDeploymentsSince(projectId, environmentId, serviceId, startDate),
+    fetchHttpMetrics(environmentId, serviceId, startDate, endDate, sampleRate).catch((err) => {
+      warnings.push(`HTTP metrics unavailable: ${describeError(err).message}`);
+      return null;
+    }),
+    routes && routes.length > 0
+      ? collectRouteMetrics(environmentId, serviceId, startDate, endDate, sampleRate, routes)
+      : null,
   ]);
+  if (routeMetrics) warnings.push(...routeMetrics.failures);
 
-  // Fetch logs via GraphQL API using deployment IDs
-  let allLogs: LogEntry[] = [];
-  const relevantDeployments = deploymentsResponse.deployments.edges
-    .map((e) => e.node)
-    .filter((d) => {
-      const created = new Date(d.createdAt).getTime();
-      return created <= new Date(endDate).getTime();
-    });
+  // Only deployments that served (or were built) during the window matter
+  const withIntervals = assignActiveIntervals(deploymentHistory);
+  const deployments = deploymentsInWindow(withIntervals, startDate, endDate);
 
-  const startMs = new Date(startDate).getTime();
-  const endMs = new Date(endDate).getTime();
+  // Fetch deploy and build logs via GraphQL API using deployment IDs
+  const batches: LogBatch[] = [];
   const limit = logLines || 500;
 
-  for (const deployment of relevantDeployments) {
+  for (const deployment of deployments) {
     try {
-      const logs = await fetchDeploymentLogs(deployment.id, limit);
-      allLogs.push(...logs);
-    } catch {
-      // Individual deployment log fetch may fail — continue
+      batches.push(await fetchLogBatch(deployment.id, "deploy", limit, { startDate, endDate }));
+    } catch (err) {
+      // Individual deployment log fetch may fail — continue, but say so
+      warnings.push(
+        `Deploy logs for ${deployment.id.substring(0, 8)} unavailable: ${describeError(err).message}`
+      );
     }
     try {
-      const logs = await fetchBuildLogs(deployment.id, limit);
-      allLogs.push(...logs);
-    } catch {
-      // Build logs may not be available
+      batches.push(await fetchLogBatch(deployment.id, "build", limit, { startDate, endDate }));
+    } catch (err) {
+      // Build logs may not be available (e.g. image deployments)
+      if (!(err instanceof NotFoundError)) {
+        warnings.push(
+          `Build logs for ${deployment.id.substring(0, 8)} unavailable: ${describeError(err).message}`
+        );
+      }
     }
   }
 
-  // Filter to analysis period and apply text filter
+  // Deduplicate, tag by deployment and source, and note which fetches hit the limit
+  const merged = mergeLogBatches(batches);
+  for (const c of merged.coverage.filter((c) => c.truncated)) {
+    warnings.push(
+      `${c.source === "build" ? "Build" : "Deploy"} logs for ${c.deploymentId?.substring(0, 8)} hit the ${c.limit}-line limit` +
+        `${c.oldest ? `; nothing before ${c.oldest} was fetched` : ""} (raise --lines for complete data)`
+    );
+  }
+  let allLogs = merged.entries;
+  const startMs = new Date(startDate).getTime();
+  const endMs = new Date(endDate).getTime();
+
+  // Filter to analysis period and apply the log query
   allLogs = allLogs.filter((l) => {
     const t = new Date(l.timestamp).getTime();
     return t >= startMs && t <= endMs;
   });
-  if (logFilter) {
-    const filterLower = logFilter.toLowerCase();
-    allLogs = allLogs.filter((l) =>
-      l.message.toLowerCase().includes(filterLower)
-    );
+  if (filter) {
+    allLogs = allLogs.filter((l) => matchesLogQuery(l, filter.node));
+  }
+  if (redactor) {
+    allLogs = allLogs.map((l) => redactor.redactEntry(l));
   }
 
-  // Sort by timestamp
-  allLogs.sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
+  // Diagnose failed builds from the build logs already fetched
+  const buildFailures: BuildReport[] = [];
+  for (const deployment of deployments.filter((d) => d.status === "FAILED").slice(0, MAX_BUILD_REPORTS)) {
+    const entries = merged.entries.filter((l) => l.deploymentId === deployment.id && l.source === "build");
+    if (entries.length === 0) continue;
+    try {
+      buildFailures.push(await diagnoseBuild(deployment, deploymentHistory, { entries, lines: limit, redactor }));
+    } catch (err) {
+      warnings.push(
+        `Build diagnostics for ${deployment.id.substring(0, 8)} unavailable: ${describeError(err).message}`
+      );
+    }
+  }
   const metrics = metricsResponse.metrics;
-  const deployments = deploymentsResponse.deployments.edges.map((e) => e.node);
 
   // Summarize HTTP metrics if available
   const http = httpMetricsResponse ? summarizeHttpMetrics(httpMetricsResponse) : undefined;
+  if (http && routeMetrics && routeMetrics.routes.length > 0) {
+    http.routes = routeMetrics.routes;
+  }
 
-  const cpuValues = findMetric(metrics, "CPU_USAGE");
-  const memoryValues = findMetric(metrics, "MEMORY_USAGE_GB");
+  // Series are per replica; the service-level view is their sum
+  const cpuValues = mergeMetricSeries(metrics, "CPU_USAGE");
+  const memoryValues = mergeMetricSeries(metrics, "MEMORY_USAGE_GB");
+  // Limits are per replica, so the largest replica's limit rather than the sum
+  const cpuLimitValues = maxMetricSeries(metrics, "CPU_LIMIT");
+  const memoryLimitValues = maxMetricSeries(metrics, "MEMORY_LIMIT_GB");
+  // Utilization is per replica against its own limit, so a sum doesn't mask one replica near the ceiling
+  const cpuUtilization = computeReplicaUtilization(metrics, "CPU_USAGE", "CPU_LIMIT");
+  const memoryUtilization = computeReplicaUtilization(metrics, "MEMORY_USAGE_GB", "MEMORY_LIMIT_GB");
 
   // Build correlation timeline
   const timeline = buildCorrelationTimeline(
@@ -340,9 +393,28 @@ export async function collectServiceHealth(options: {
     cpuValues,
     memoryValues,
     http,
-    allLogs
+    allLogs,
+    compiledLogMetrics,
+    detection
   );
 
+  // Rebuild requests from correlated log entries and pin the worst ones to anomalous windows
+  const traces = groupByCorrelation(allLogs, correlationKeys);
+  attachTracesToTimeline(timeline, traces);
+
+  // Before/after each cutover, wide enough for a few metric samples either side
+  const deployWindow = deployWindowMs ?? Math.max(DEFAULT_DEPLOY_WINDOW_MS, DEPLOY_WINDOW_SAMPLES * sampleRate * 1000);
+  const deploySignals = {
+    cpu: cpuValues,
+    memory: memoryValues,
+    http,
+    logs: allLogs.filter((l) => l.source !== "build"),
+    logCoverage: merged.coverage,
+  };
+  const deployDiffs = deploymentsLiveIn(withIntervals, startDate, endDate)
+    .slice(-MAX_DEPLOY_DIFFS)
+    .map((d) => diffDeployment(d, withIntervals, deploySignals, deployWindow, { start: startDate, end: endDate }));
+
   return {
     service: {
       name: serviceName,
@@ -356,18 +428,34 @@ export async function collectServiceHealth(options: {
     metrics: {
       cpu: summarizeMetric("CPU_USAGE", cpuValues),
       memory: summarizeMetric("MEMORY_USAGE_GB", memoryValues),
+      cpuLimit: summarizeMetric("CPU_LIMIT", cpuLimitValues),
+      memoryLimit: summarizeMetric("MEMORY_LIMIT_GB", memoryLimitValues),
       networkRx: summarizeMetric(
         "NETWORK_RX_GB",
-        findMetric(metrics, "NETWORK_RX_GB")
+        mergeMetricSeries(metrics, "NETWORK_RX_GB")
       ),
       networkTx: summarizeMetric(
         "NETWORK_TX_GB",
-        findMetric(metrics, "NETWORK_TX_GB")
+        mergeMetricSeries(metrics, "NETWORK_TX_GB")
       ),
       http,
+      utilization:
+        cpuUtilization || memoryUtilization
+          ? { cpu: cpuUtilization, memory: memoryUtilization }
+          : undefined,
     },
     deployments,
     logs: allLogs,
+    buildFailures: buildFailures.length > 0 ? buildFailures : undefined,
+    deployDiffs: deployDiffs.length > 0 ? deployDiffs : undefined,
+    logCoverage: merged.coverage.length > 0 ? merged.coverage : undefined,
     timeline: timeline.length > 0 ? timeline : undefined,
+    anomalyDetection: timeline.length > 0 ? describeAnomalyDetection(detection) : undefined,
+    replicas: buildReplicaBreakdown(metrics),
+    patterns: clusterLogPatterns(allLogs, timeline.length > 0 ? timeline : undefined),
+    requests: traces.length > 0 ? summarizeTraces(traces, correlationKeys) : undefined,
+    logMetrics: logMetrics.length > 0 ? logMetrics : undefined,
+    redactions: redactor?.summary(),
+    warnings: warnings.length > 0 ? warnings : undefined,
   };
 }
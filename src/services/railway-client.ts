@@ -3,11 +3,19 @@ import type {
   MetricsResponse,
   MetricsQueryVariables,
   DeploymentsResponse,
+  DeploymentNode,
   MetricMeasurement,
   HttpMetricsResponse,
+  HttpRouteFilter,
+  LogBatch,
   LogEntry,
+  LogSource,
 } from "../types/railway.js";
 import { getToken } from "./auth.js";
+import { isReplaying, recordingFetch } from "./recorder.js";
+import { classifyError, RailwayApiError, RateLimitError } from "./errors.js";
+import { hasServed } from "./deployments.js";
+import { ingestLogs } from "./log-ingest.js";
 
 const RAILWAY_API_ENDPOINT = "https://backboard.railway.com/graphql/v2";
 const RAILWAY_INTERNAL_ENDPOINT =
@@ -19,12 +27,14 @@ let internalClientInstance: GraphQLClient | null = null;
 async function getClient(): Promise<GraphQLClient> {
   if (clientInstance) return clientInstance;
 
-  const token = await getToken();
+  // Replayed runs never reach the network, so no token is required
+  const token = isReplaying() ? "replay" : await getToken();
   clientInstance = new GraphQLClient(RAILWAY_API_ENDPOINT, {
     headers: {
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json",
     },
+    fetch: recordingFetch,
   });
 
   return clientInstance;
@@ -33,17 +43,69 @@ async function getClient(): Promise<GraphQLClient> {
 async function getInternalClient(): Promise<GraphQLClient> {
   if (internalClientInstance) return internalClientInstance;
 
-  const token = await getToken();
+  // Replayed runs never reach the network, so no token is required
+  const token = isReplaying() ? "replay" : await getToken();
   internalClientInstance = new GraphQLClient(RAILWAY_INTERNAL_ENDPOINT, {
     headers: {
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json",
     },
+    fetch: recordingFetch,
   });
 
   return internalClientInstance;
 }
 
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 15_000;
+// Don't sit in a retry loop for longer than this on a single rate-limit reset
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, base * 2^attempt].
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Send a GraphQL request, retrying transient failures (network, 5xx, rate
+ * limits) with exponential backoff. Every failure is rethrown as a typed
+ * RailwayApiError when it can be classified.
+ */
+async function request<T>(
+  client: GraphQLClient,
+  operation: string,
+  document: string,
+  variables: object
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await client.request<T>(document, variables);
+    } catch (err) {
+      const classified = classifyError(operation, err);
+      const canRetry =
+        classified instanceof RailwayApiError &&
+        classified.retryable &&
+        attempt < MAX_ATTEMPTS - 1;
+      if (!canRetry) throw classified;
+
+      let delay = backoffDelay(attempt);
+      if (classified instanceof RateLimitError && classified.retryAfterMs !== undefined) {
+        if (classified.retryAfterMs > MAX_RATE_LIMIT_WAIT_MS) throw classified;
+        delay = classified.retryAfterMs + delay / 4;
+      }
+      await sleep(delay);
+    }
+  }
+}
+
 const METRICS_QUERY = gql`
   query metrics(
     $environmentId: String!
@@ -86,9 +148,11 @@ const DEPLOYMENTS_QUERY = gql`
     $environmentId: String!
     $serviceId: String!
     $first: Int
+    $after: String
   ) {
     deployments(
       first: $first
+      after: $after
       input: {
         projectId: $projectId
         environmentId: $environmentId
@@ -104,6 +168,10 @@ const DEPLOYMENTS_QUERY = gql`
           staticUrl
         }
       }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
     }
   }
 `;
@@ -195,11 +263,12 @@ export async function fetchMetrics(
   variables: MetricsQueryVariables
 ): Promise<MetricsResponse> {
   const client = await getClient();
-  return client.request<MetricsResponse>(METRICS_QUERY, variables);
+  return request<MetricsResponse>(client, "metrics", METRICS_QUERY, variables);
 }
 
 /**
- * Fetch all resource metrics (CPU, memory, network) for a service.
+ * Fetch all resource metrics (CPU, memory, network) for a service, with one
+ * series per replica so multi-replica and multi-region services can be broken down.
  */
 export async function fetchAllMetrics(
   environmentId: string,
@@ -225,7 +294,7 @@ export async function fetchAllMetrics(
     endDate,
     sampleRateSeconds,
     measurements,
-    groupBy: ["DEPLOYMENT_ID"],
+    groupBy: ["DEPLOYMENT_ID", "DEPLOYMENT_INSTANCE_ID", "REGION"],
   });
 }
 
@@ -236,34 +305,93 @@ export async function fetchDeployments(
   projectId: string,
   environmentId: string,
   serviceId: string,
-  first: number = 10
+  first: number = 10,
+  after?: string
 ): Promise<DeploymentsResponse> {
   const client = await getClient();
-  return client.request<DeploymentsResponse>(DEPLOYMENTS_QUERY, {
+  return request<DeploymentsResponse>(client, "deployments", DEPLOYMENTS_QUERY, {
     projectId,
     environmentId,
     serviceId,
     first,
+    after,
   });
 }
 
+const DEPLOYMENTS_PAGE_SIZE = 25;
+const MAX_DEPLOYMENT_PAGES = 40;
+
+/**
+ * Page through a service's deployments (newest first) until `done` accepts
+ * everything fetched so far, or the history (or the page cap) runs out.
+ */
+export async function pageDeployments(
+  projectId: string,
+  environmentId: string,
+  serviceId: string,
+  done: (deployments: DeploymentNode[]) => boolean
+): Promise<DeploymentNode[]> {
+  const deployments: DeploymentNode[] = [];
+  let after: string | undefined;
+
+  for (let page = 0; page < MAX_DEPLOYMENT_PAGES; page++) {
+    const response = await fetchDeployments(
+      projectId,
+      environmentId,
+      serviceId,
+      DEPLOYMENTS_PAGE_SIZE,
+      after
+    );
+    deployments.push(...response.deployments.edges.map((e) => e.node));
+    const pageInfo = response.deployments.pageInfo;
+    if (done(deployments) || !pageInfo?.hasNextPage || !pageInfo.endCursor) break;
+    after = pageInfo.endCursor;
+  }
+
+  return deployments;
+}
+
+/**
+ * Page through a service's deployments until the list reaches back past
+ * `startDate`, so every deployment that could have been serving during the
+ * window is included — not just the most recent few.
+ */
+export async function fetchDeploymentsSince(
+  projectId: string,
+  environmentId: string,
+  serviceId: string,
+  startDate: string
+): Promise<DeploymentNode[]> {
+  const startMs = new Date(startDate).getTime();
+  // Stop once we hold a deployment created before the window that served
+  // traffic: it (or something newer) was serving when the window opened.
+  return pageDeployments(projectId, environmentId, serviceId, (deployments) =>
+    deployments.some((d) => new Date(d.createdAt).getTime() <= startMs && hasServed(d))
+  );
+}
+
 /**
  * Fetch HTTP latency and status code metrics from Railway's internal API.
+ * Pass a route filter to scope the metrics to one method and/or path.
  */
 export async function fetchHttpMetrics(
   environmentId: string,
   serviceId: string,
   startDate: string,
   endDate: string,
-  stepSeconds?: number
+  stepSeconds?: number,
+  filter?: HttpRouteFilter
 ): Promise<HttpMetricsResponse> {
   const client = await getInternalClient();
-  return client.request<HttpMetricsResponse>(HTTP_METRICS_QUERY, {
+  return request<HttpMetricsResponse>(client, "httpServiceTabMetrics", HTTP_METRICS_QUERY, {
     serviceId,
     environmentId,
     startDate,
     endDate,
     stepSeconds,
+    method: filter?.method,
+    path: filter?.path,
+    statusCode: filter?.statusCode,
   });
 }
 
@@ -281,25 +409,53 @@ export async function fetchProject(
   };
 }> {
   const client = await getClient();
-  return client.request(PROJECT_QUERY, { id: projectId });
+  return request(client, "project", PROJECT_QUERY, { id: projectId });
 }
 
 const DEPLOYMENT_LOGS_QUERY = gql`
-  query deploymentLogs($deploymentId: String!, $limit: Int) {
-    deploymentLogs(deploymentId: $deploymentId, limit: $limit) {
+  query deploymentLogs(
+    $deploymentId: String!
+    $limit: Int
+    $startDate: DateTime
+    $endDate: DateTime
+  ) {
+    deploymentLogs(
+      deploymentId: $deploymentId
+      limit: $limit
+      startDate: $startDate
+      endDate: $endDate
+    ) {
       timestamp
       message
       severity
+      attributes {
+        key
+        value
+      }
     }
   }
 `;
 
 const BUILD_LOGS_QUERY = gql`
-  query buildLogs($deploymentId: String!, $limit: Int) {
-    buildLogs(deploymentId: $deploymentId, limit: $limit) {
+  query buildLogs(
+    $deploymentId: String!
+    $limit: Int
+    $startDate: DateTime
+    $endDate: DateTime
+  ) {
+    buildLogs(
+      deploymentId: $deploymentId
+      limit: $limit
+      startDate: $startDate
+      endDate: $endDate
+    ) {
       timestamp
       message
       severity
+      attributes {
+        key
+        value
+      }
     }
   }
 `;
@@ -308,25 +464,59 @@ interface GqlLogEntry {
   timestamp: string;
   message: string;
   severity?: string;
+  attributes?: LogAttribute[];
+}
+
+export interface LogAttribute {
+  key: string;
+  value: string;
+}
+
+/**
+ * Convert Railway's structured-log attribute pairs into an object.
+ */
+export function toLogAttributes(
+  attributes: LogAttribute[] | undefined
+): Record<string, unknown> | undefined {
+  if (!attributes || attributes.length === 0) return undefined;
+  const result: Record<string, unknown> = {};
+  for (const { key, value } of attributes) {
+    // Railway sends attribute values JSON-encoded ("\"GET\"", "200")
+    try {
+      result[key] = JSON.parse(value);
+    } catch {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+export interface LogRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+function toLogEntries(logs: GqlLogEntry[]): LogEntry[] {
+  return ingestLogs(
+    logs.map((l) => ({
+      timestamp: l.timestamp,
+      message: l.message,
+      severity: l.severity || "info",
+      attributes: toLogAttributes(l.attributes),
+    }))
+  );
 }
 
 /**
  * Fetch deployment logs via GraphQL API for a single deployment.
+ * With a range, `limit` applies to the most recent entries inside it.
  */
 export async function fetchDeploymentLogs(
   deploymentId: string,
-  limit: number = 500
+  limit: number = 500,
+  range: LogRange = {}
 ): Promise<LogEntry[]> {
-  const client = await getClient();
-  const data = await client.request<{ deploymentLogs: GqlLogEntry[] }>(
-    DEPLOYMENT_LOGS_QUERY,
-    { deploymentId, limit }
-  );
-  return data.deploymentLogs.map((l) => ({
-    timestamp: l.timestamp,
-    message: l.message,
-    severity: l.severity || "info",
-  }));
+  return (await fetchLogBatch(deploymentId, "deploy", limit, range)).entries;
 }
 
 /**
@@ -334,16 +524,35 @@ export async function fetchDeploymentLogs(
  */
 export async function fetchBuildLogs(
   deploymentId: string,
-  limit: number = 500
+  limit: number = 500,
+  range: LogRange = {}
 ): Promise<LogEntry[]> {
+  return (await fetchLogBatch(deploymentId, "build", limit, range)).entries;
+}
+
+/**
+ * Fetch one deployment's deploy or build logs, with entries tagged by
+ * deployment and source and the raw line count kept so callers can tell
+ * whether `limit` cut the logs off.
+ */
+export async function fetchLogBatch(
+  deploymentId: string,
+  source: LogSource,
+  limit: number = 500,
+  range: LogRange = {}
+): Promise<LogBatch> {
   const client = await getClient();
-  const data = await client.request<{ buildLogs: GqlLogEntry[] }>(
-    BUILD_LOGS_QUERY,
-    { deploymentId, limit }
-  );
-  return data.buildLogs.map((l) => ({
-    timestamp: l.timestamp,
-    message: l.message,
-    severity: l.severity || "info",
-  }));
+  const variables = { deploymentId, limit, ...range };
+  const lines =
+    source === "build"
+      ? (await request<{ buildLogs: GqlLogEntry[] }>(client, "buildLogs", BUILD_LOGS_QUERY, variables)).buildLogs
+      : (await request<{ deploymentLogs: GqlLogEntry[] }>(client, "deploymentLogs", DEPLOYMENT_LOGS_QUERY, variables)).deploymentLogs;
+
+  return {
+    deploymentId,
+    source,
+    entries: toLogEntries(lines).map((e) => ({ ...e, deploymentId, source })),
+    lineCount: lines.length,
+    limit,
+  };
 }
@@ -0,0 +1,168 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { pinNow } from "../utils/time.js";
+
+/**
+ * Record-and-replay support for Railway GraphQL traffic.
+ *
+ * Every request that goes through the GraphQL clients is routed through
+ * `recordingFetch`. In record mode the real response is written to
+ * `<dir>/<hash>.json`; in replay mode the response is served from that file
+ * and the network is never touched. The hash covers the endpoint URL and the
+ * request body (query + variables), never the auth header.
+ *
+ * A `session.json` manifest pins the reference time of the recording so that
+ * relative periods like `--period 24h` resolve to the same variables on replay.
+ */
+
+type RecorderMode = "record" | "replay";
+
+interface RecorderState {
+  mode: RecorderMode;
+  dir: string;
+}
+
+interface SessionManifest {
+  recordedAt: string;
+  argv: string[];
+}
+
+interface Capture {
+  request: {
+    url: string;
+    operationName?: string;
+    variables?: unknown;
+    query?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  recordedAt: string;
+}
+
+const SESSION_FILE = "session.json";
+
+let state: RecorderState | null = null;
+
+/**
+ * Enable recording: captures are written to `dir`, which is created if needed.
+ */
+export function startRecording(dir: string): void {
+  const absDir = resolve(dir);
+  mkdirSync(absDir, { recursive: true });
+
+  const manifest: SessionManifest = {
+    recordedAt: new Date().toISOString(),
+    argv: process.argv.slice(2),
+  };
+  writeFileSync(join(absDir, SESSION_FILE), JSON.stringify(manifest, null, 2));
+  pinNow(manifest.recordedAt);
+
+  state = { mode: "record", dir: absDir };
+}
+
+/**
+ * Enable replay: all GraphQL requests are served from captures in `dir`.
+ */
+export function startReplay(dir: string): void {
+  const absDir = resolve(dir);
+  const manifestPath = join(absDir, SESSION_FILE);
+  if (!existsSync(manifestPath)) {
+    throw new Error(
+      `No recording found in ${absDir} (missing ${SESSION_FILE}). Create one with --record <dir>.`
+    );
+  }
+
+  const manifest: SessionManifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
+  pinNow(manifest.recordedAt);
+
+  state = { mode: "replay", dir: absDir };
+}
+
+export function isReplaying(): boolean {
+  return state?.mode === "replay";
+}
+
+export function getReplayDir(): string | undefined {
+  return state?.mode === "replay" ? state.dir : undefined;
+}
+
+function captureKey(url: string, body: string): string {
+  return createHash("sha256").update(url).update("\n").update(body).digest("hex").slice(0, 32);
+}
+
+function describeBody(body: string): Omit<Capture["request"], "url"> {
+  try {
+    const parsed = JSON.parse(body);
+    return {
+      operationName: parsed.operationName,
+      variables: parsed.variables,
+      query: parsed.query,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Drop-in `fetch` for GraphQLClient that records or replays traffic depending
+ * on the active mode. With no mode active it simply delegates to `fetch`.
+ */
+export async function recordingFetch(
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  if (!state) return fetch(input, init);
+
+  const url = input instanceof Request ? input.url : input.toString();
+  const body = typeof init?.body === "string" ? init.body : "";
+  const file = join(state.dir, `${captureKey(url, body)}.json`);
+
+  if (state.mode === "replay") {
+    if (!existsSync(file)) {
+      const { operationName } = describeBody(body);
+      throw new Error(
+        `No recorded response for ${operationName ?? "request"} to ${url} in ${state.dir}. ` +
+          `Re-record with the same command and options.`
+      );
+    }
+    const capture: Capture = JSON.parse(readFileSync(file, "utf-8"));
+    return new Response(capture.response.body, {
+      status: capture.response.status,
+      statusText: capture.response.statusText,
+      headers: capture.response.headers,
+    });
+  }
+
+  const response = await fetch(input, init);
+  const text = await response.text();
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    // Never persist cookies; the body is already decoded so drop encoding headers
+    if (key === "set-cookie" || key === "content-encoding" || key === "content-length") return;
+    headers[key] = value;
+  });
+
+  const capture: Capture = {
+    request: { url, ...describeBody(body) },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: text,
+    },
+    recordedAt: new Date().toISOString(),
+  };
+  writeFileSync(file, JSON.stringify(capture, null, 2));
+
+  return new Response(text, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,192 @@
+import { createHmac, randomBytes } from "crypto";
+import type { LogEntry, RedactionRuleDefinition, RedactionSummary } from "../types/railway.js";
+
+/**
+ * Secret and PII redaction for log entries before they leave the machine
+ * (Claude prompt, JSON reports, exports).
+ *
+ * Matches are replaced with a pseudonym such as `<email:3fa1b2c4>`: an HMAC of
+ * the original value, so the same address or token maps to the same
+ * pseudonym everywhere and entries can still be correlated. The HMAC key is
+ * random per run unless RAILWAY_METRICS_REDACTION_KEY is set, which keeps
+ * pseudonyms stable across runs.
+ */
+
+export interface RedactionRule {
+  readonly name: string;
+  /** Global regex; a `secret` named group limits the replacement to that part */
+  readonly pattern: RegExp;
+  /** Extra check on a match (e.g. card structure and Luhn) */
+  readonly accept?: (match: string) => boolean;
+}
+
+export interface Redactor {
+  redactText(text: string): string;
+  redactEntry(entry: LogEntry): LogEntry;
+  summary(): RedactionSummary;
+}
+
+/** Luhn checksum over the digits of a candidate */
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Card structure plus Luhn, so order numbers and timestamps aren't taken for
+ * cards: an issuer prefix (2-6), and 15-19 digits when written without
+ * separators. A bare 13- or 14-digit run is far more likely an epoch
+ * millisecond timestamp or an ID, and about one in ten of those passes Luhn.
+ */
+function isCardNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+  if (!/^[2-6]/.test(digits)) return false;
+  const separated = digits.length !== candidate.length;
+  if (!separated && digits.length < 15) return false;
+  return isLuhnValid(digits);
+}
+
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  // Private key blocks first, so their contents aren't matched piecemeal
+  {
+    name: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: "connection-string",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s@/]+)@/gi,
+  },
+  { name: "bearer-token", pattern: /\b(?:Bearer|Basic|Token)\s+(?<secret>[A-Za-z0-9\-._~+/]{8,}=*)/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  {
+    name: "api-key",
+    pattern: /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}\b|\bgh[pousr]_[A-Za-z0-9]{30,}\b|\bxox[abpr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    name: "secret-assignment",
+    pattern:
+      /\b(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|refresh[_-]?token|client[_-]?secret)["']?\s*[:=]\s*["']?(?<secret>[^\s"',;&]{3,})/gi,
+  },
+  { name: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { name: "card-number", pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: isCardNumber },
+];
+
+const PSEUDONYM = /^<[\w.-]+:[0-9a-f]{8}>$/;
+
+// Attribute keys whose string values are secret whatever they look like
+const SENSITIVE_KEY =
+  /^(?:password|passwd|pwd|secret|token|api[_-]?key|apikey|access[_-]?token|refresh[_-]?token|client[_-]?secret|authorization|cookie|set-cookie|credentials?|private[_-]?key)$/i;
+
+/**
+ * Compile config rules. Their patterns were validated when the config loaded.
+ */
+export function compileRedactionRules(definitions: RedactionRuleDefinition[]): RedactionRule[] {
+  return definitions.map((d) => {
+    const flags = d.flags ?? "";
+    return { name: d.name, pattern: new RegExp(d.pattern, flags.includes("g") ? flags : `${flags}g`) };
+  });
+}
+
+export function createRedactor(options: {
+  rules?: RedactionRuleDefinition[];
+  disable?: string[];
+  key?: string;
+} = {}): Redactor {
+  const disabled = new Set(options.disable ?? []);
+  const rules = [
+    ...BUILTIN_REDACTION_RULES.filter((r) => !disabled.has(r.name)),
+    ...compileRedactionRules(options.rules ?? []),
+  ];
+  const key = options.key ?? process.env.RAILWAY_METRICS_REDACTION_KEY ?? randomBytes(32).toString("hex");
+  const counts = new Map<string, { count: number; values: Set<string> }>();
+
+  const pseudonym = (rule: string, value: string): string => {
+    const digest = createHmac("sha256", key).update(value).digest("hex").slice(0, 8);
+    let stat = counts.get(rule);
+    if (!stat) counts.set(rule, (stat = { count: 0, values: new Set() }));
+    stat.count++;
+    stat.values.add(digest);
+    return `<${rule}:${digest}>`;
+  };
+
+  const redactText = (text: string): string => {
+    let result = text;
+    for (const rule of rules) {
+      rule.pattern.lastIndex = 0;
+      result = result.replace(rule.pattern, (...args) => {
+        const match = args[0] as string;
+        if (rule.accept && !rule.accept(match)) return match;
+        const groups = args[args.length - 1] as Record<string, string> | undefined;
+        const secret = typeof groups === "object" ? groups?.secret : undefined;
+        // Already replaced by an earlier rule
+        if (PSEUDONYM.test(secret ?? match)) return match;
+        if (secret === undefined) return pseudonym(rule.name, match);
+        const at = match.lastIndexOf(secret);
+        return match.slice(0, at) + pseudonym(rule.name, secret) + match.slice(at + secret.length);
+      });
+    }
+    return result;
+  };
+
+  const redactValue = (value: unknown, key?: string): unknown => {
+    if (typeof value === "string") {
+      return key !== undefined && SENSITIVE_KEY.test(key) && value !== ""
+        ? pseudonym("sensitive-field", value)
+        : redactText(value);
+    }
+    if (Array.isArray(value)) return value.map((v) => redactValue(v, key));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redactValue(v, k)])
+      );
+    }
+    return value;
+  };
+
+  return {
+    redactText,
+    redactEntry(entry) {
+      const redacted: LogEntry = { ...entry, message: redactText(entry.message) };
+      if (entry.attributes) redacted.attributes = redactValue(entry.attributes) as Record<string, unknown>;
+      if (entry.stack) {
+        redacted.stack = {
+          ...entry.stack,
+          errorMessage: entry.stack.errorMessage !== undefined ? redactText(entry.stack.errorMessage) : undefined,
+          frames: entry.stack.frames.map(redactText),
+          causes: entry.stack.causes?.map(redactText),
+        };
+      }
+      return redacted;
+    },
+    summary() {
+      const byRule: RedactionSummary["byRule"] = {};
+      let total = 0;
+      for (const [rule, stat] of counts) {
+        byRule[rule] = { count: stat.count, distinct: stat.values.size };
+        total += stat.count;
+      }
+      return { total, byRule };
+    },
+  };
+}
+
+/**
+ * "Redacted 42 values: email 30 (5 distinct), bearer-token 12 (1 distinct)".
+ */
+export function describeRedactions(summary: RedactionSummary): string {
+  if (summary.total === 0) return "Redacted 0 values: no secrets or personal data detected";
+  const parts = Object.entries(summary.byRule)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .map(([rule, s]) => `${rule} ${s.count} (${s.distinct} distinct)`);
+  return `Redacted ${summary.total} values: ${parts.join(", ")}`;
+}
@@ -0,0 +1,169 @@
+import type {
+  HotReplica,
+  MetricResult,
+  MetricValue,
+  RegionSummary,
+  ReplicaBreakdown,
+  ReplicaSummary,
+} from "../types/railway.js";
+import { median } from "../utils/stats.js";
+import { summarizeMetric } from "./summarize.js";
+import { computeUtilization } from "./utilization.js";
+
+// A replica is "hot" when its average is this many times its peers' median...
+const HOT_RATIO = 1.5;
+// ...and the absolute gap is large enough to matter
+const MIN_CPU_GAP_CORES = 0.05;
+const MIN_MEMORY_GAP_GB = 50 / 1024;
+
+/**
+ * Sum several series point-by-point on their timestamps.
+ */
+export function sumSeries(series: MetricValue[][]): MetricValue[] {
+  const byTs = new Map<number, number>();
+  for (const values of series) {
+    for (const v of values) {
+      byTs.set(v.ts, (byTs.get(v.ts) ?? 0) + v.value);
+    }
+  }
+  return Array.from(byTs.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([ts, value]) => ({ ts, value }));
+}
+
+/**
+ * Service-wide series for a measurement: the sum across all replicas.
+ * With metrics grouped per instance there is one series per replica.
+ */
+export function mergeMetricSeries(metrics: MetricResult[], measurement: string): MetricValue[] {
+  return sumSeries(metrics.filter((m) => m.measurement === measurement).map((m) => m.values));
+}
+
+/**
+ * Per-replica series for a measurement: the largest replica's value at each
+ * timestamp. Used for limits, which summing would multiply by the replica count.
+ */
+export function maxMetricSeries(metrics: MetricResult[], measurement: string): MetricValue[] {
+  const byTs = new Map<number, number>();
+  for (const m of metrics.filter((m) => m.measurement === measurement)) {
+    for (const v of m.values) {
+      byTs.set(v.ts, Math.max(byTs.get(v.ts) ?? -Infinity, v.value));
+    }
+  }
+  return Array.from(byTs.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([ts, value]) => ({ ts, value }));
+}
+
+function instanceKey(m: MetricResult): string {
+  return m.tags.deploymentInstanceId ?? m.tags.deploymentId ?? "unknown";
+}
+
+/**
+ * Build per-replica and per-region summaries and flag hot replicas.
+ */
+export function buildReplicaBreakdown(metrics: MetricResult[]): ReplicaBreakdown {
+  const byInstance = new Map<string, MetricResult[]>();
+  for (const m of metrics) {
+    const key = instanceKey(m);
+    if (!byInstance.has(key)) byInstance.set(key, []);
+    byInstance.get(key)!.push(m);
+  }
+
+  const instances: ReplicaSummary[] = Array.from(byInstance.entries()).map(([instanceId, series]) => {
+    const tags = series[0].tags;
+    return {
+      instanceId,
+      deploymentId: tags.deploymentId,
+      region: tags.region,
+      cpu: summarizeMetric("CPU_USAGE", mergeMetricSeries(series, "CPU_USAGE")),
+      memory: summarizeMetric("MEMORY_USAGE_GB", mergeMetricSeries(series, "MEMORY_USAGE_GB")),
+      memoryUtilization: computeUtilization(
+        mergeMetricSeries(series, "MEMORY_USAGE_GB"),
+        mergeMetricSeries(series, "MEMORY_LIMIT_GB")
+      ),
+    };
+  });
+
+  const byRegion = new Map<string, MetricResult[]>();
+  for (const m of metrics) {
+    const region = m.tags.region ?? "unknown";
+    if (!byRegion.has(region)) byRegion.set(region, []);
+    byRegion.get(region)!.push(m);
+  }
+
+  const regions: RegionSummary[] = Array.from(byRegion.entries())
+    .map(([region, series]) => ({
+      region,
+      replicaCount: new Set(series.map(instanceKey)).size,
+      cpu: summarizeMetric("CPU_USAGE", mergeMetricSeries(series, "CPU_USAGE")),
+      memory: summarizeMetric("MEMORY_USAGE_GB", mergeMetricSeries(series, "MEMORY_USAGE_GB")),
+    }))
+    .sort((a, b) => a.region.localeCompare(b.region));
+
+  // Replicas without samples are left out of the breakdown and of the peer comparison alike
+  const reported = instances.filter((r) => r.cpu.dataPoints > 0 || r.memory.dataPoints > 0);
+
+  return {
+    instances: reported,
+    regions,
+    hot: detectHotReplicas(reported),
+  };
+}
+
+/**
+ * Find replicas running much hotter than their siblings in the same
+ * deployment. Replicas are only compared against peers serving the same code,
+ * so a new deployment using more memory than the old one isn't "hot".
+ */
+export function detectHotReplicas(instances: ReplicaSummary[]): HotReplica[] {
+  const byDeployment = new Map<string, ReplicaSummary[]>();
+  for (const r of instances) {
+    const key = r.deploymentId ?? "unknown";
+    if (!byDeployment.has(key)) byDeployment.set(key, []);
+    byDeployment.get(key)!.push(r);
+  }
+
+  const hot: HotReplica[] = [];
+  for (const replicas of byDeployment.values()) {
+    if (replicas.length < 2) continue;
+
+    for (const signal of ["cpu", "memory"] as const) {
+      const minGap = signal === "cpu" ? MIN_CPU_GAP_CORES : MIN_MEMORY_GAP_GB;
+      for (const replica of replicas) {
+        const peers = replicas.filter((r) => r !== replica).map((r) => r[signal].avg);
+        const peerMedian = median(peers);
+        const value = replica[signal].avg;
+        if (value - peerMedian < minGap) continue;
+
+        // Idle peers (median 0) are compared against the gap floor instead
+        const ratio = value / Math.max(peerMedian, minGap);
+        if (ratio >= HOT_RATIO) {
+          hot.push({
+            instanceId: replica.instanceId,
+            deploymentId: replica.deploymentId,
+            region: replica.region,
+            signal,
+            value,
+            peerMedian,
+            ratio,
+          });
+        }
+      }
+    }
+  }
+
+  return hot.sort((a, b) => b.ratio - a.ratio);
+}
+
+/**
+ * One-line description of a hot replica, for reports and prompts.
+ */
+export function describeHotReplica(h: HotReplica): string {
+  const where = h.region ? ` in ${h.region}` : "";
+  const ratio = `${h.ratio.toFixed(1)}x`;
+  if (h.signal === "cpu") {
+    return `Replica ${h.instanceId.substring(0, 12)}${where}: CPU avg ${h.value.toFixed(3)} cores, ${ratio} its peers' median (${h.peerMedian.toFixed(3)} cores)`;
+  }
+  return `Replica ${h.instanceId.substring(0, 12)}${where}: memory avg ${(h.value * 1024).toFixed(0)} MB, ${ratio} its peers' median (${(h.peerMedian * 1024).toFixed(0)} MB)`;
+}
@@ -0,0 +1,218 @@
+import type { LogEntry } from "../types/railway.js";
+
+/**
+ * Single severity model for every log consumer (timeline, prompt, raw report,
+ * `logs`, queries), so error and warning counts agree across commands.
+ *
+ * A log entry's severity is decided by the first detector that recognizes it:
+ * structured fields (JSON attributes or a JSON message), logfmt `level=`,
+ * plain-text prefixes, a reassembled stack trace, and finally the severity
+ * Railway attached to the line.
+ */
+
+export type Severity = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+
+export const SEVERITY_RANK: Record<Severity, number> = {
+  trace: 0,
+  debug: 1,
+  info: 2,
+  warn: 3,
+  error: 4,
+  fatal: 5,
+};
+
+const SEVERITY_NAMES: Record<string, Severity> = {
+  trace: "trace",
+  debug: "debug",
+  verbose: "debug",
+  fine: "debug",
+  info: "info",
+  information: "info",
+  informational: "info",
+  notice: "info",
+  log: "info",
+  warn: "warn",
+  warning: "warn",
+  error: "error",
+  err: "error",
+  severe: "error",
+  fatal: "fatal",
+  critical: "fatal",
+  crit: "fatal",
+  alert: "fatal",
+  emerg: "fatal",
+  emergency: "fatal",
+  panic: "fatal",
+};
+
+/**
+ * Map syslog priorities (0 emerg … 7 debug) and pino/bunyan levels
+ * (10 trace … 60 fatal) onto the severity enum.
+ */
+function fromNumber(level: number): Severity | undefined {
+  if (!Number.isFinite(level) || level < 0) return undefined;
+  if (level <= 7) {
+    if (level <= 2) return "fatal";
+    if (level === 3) return "error";
+    if (level === 4) return "warn";
+    if (level <= 6) return "info";
+    return "debug";
+  }
+  if (level < 10) return undefined;
+  if (level < 20) return "trace";
+  if (level < 30) return "debug";
+  if (level < 40) return "info";
+  if (level < 50) return "warn";
+  if (level < 60) return "error";
+  return "fatal";
+}
+
+/**
+ * Parse a level name ("WARNING", "err", "Fatal") or number (pino 50, syslog 3).
+ */
+export function parseSeverity(value: unknown): Severity | undefined {
+  if (typeof value === "number") return fromNumber(value);
+  if (typeof value !== "string") return undefined;
+  const name = value.trim().toLowerCase();
+  if (/^\d+$/.test(name)) return fromNumber(parseInt(name, 10));
+  return SEVERITY_NAMES[name];
+}
+
+export interface SeverityDetector {
+  readonly name: string;
+  detect(entry: LogEntry): Severity | undefined;
+}
+
+// Structured-log level fields, in order of preference
+const LEVEL_KEYS = ["level", "severity", "lvl", "loglevel", "log_level", "levelname", "log.level", "@l"];
+
+function levelFromObject(fields: Record<string, unknown>): Severity | undefined {
+  for (const key of LEVEL_KEYS) {
+    const value = key in fields ? fields[key] : undefined;
+    const severity = parseSeverity(value);
+    if (severity) return severity;
+  }
+  // Nested form, e.g. { log: { level: "warn" } } (ECS)
+  const log = fields.log;
+  if (log && typeof log === "object") {
+    return parseSeverity((log as Record<string, unknown>).level);
+  }
+  return undefined;
+}
+
+/** JSON logs (pino, bunyan, winston, structlog, ECS): level from attributes or a JSON message */
+export const jsonSeverityDetector: SeverityDetector = {
+  name: "json",
+  detect(entry) {
+    if (entry.attributes) {
+      const severity = levelFromObject(entry.attributes);
+      if (severity) return severity;
+    }
+    const message = entry.message.trim();
+    if (message.startsWith("{") && message.endsWith("}")) {
+      try {
+        const parsed: unknown = JSON.parse(message);
+        if (parsed && typeof parsed === "object") {
+          return levelFromObject(parsed as Record<string, unknown>);
+        }
+      } catch {
+        // Not JSON after all
+      }
+    }
+    return undefined;
+  },
+};
+
+const LOGFMT_LEVEL = /(?:^|\s)(?:level|lvl|severity)=("?)([\w-]+)\1(?=\s|$)/i;
+
+/** logfmt lines: `time=... level=error msg="..."` */
+export const logfmtSeverityDetector: SeverityDetector = {
+  name: "logfmt",
+  detect(entry) {
+    const match = entry.message.match(LOGFMT_LEVEL);
+    return match ? parseSeverity(match[2]) : undefined;
+  },
+};
+
+const SYSLOG_PREFIX = /^<(\d{1,3})>/;
+// glog / klog: "E0501 12:00:00.000000 ..."
+const GLOG_PREFIX = /^([IWEF])\d{4} \d{2}:\d{2}:\d{2}/;
+const GLOG_LEVELS: Record<string, Severity> = { I: "info", W: "warn", E: "error", F: "fatal" };
+// Up to two leading tokens (timestamp, logger) before the level
+const BRACKETED_LEVEL =
+  /^(?:\S+\s+){0,2}?[[(<]\s*(trace|debug|verbose|info|notice|warn|warning|error|err|severe|fatal|critical|crit|panic)\s*[\])>]/i;
+// Bare levels must be uppercase so prose like "error handling enabled" isn't matched
+const UPPERCASE_LEVEL =
+  /^(?:\S+\s+){0,2}?(TRACE|DEBUG|VERBOSE|INFO|NOTICE|WARN|WARNING|ERROR|ERR|SEVERE|FATAL|CRITICAL|CRIT|PANIC)(?=[:\s\]|]|$)/;
+
+/** Plain-text prefixes: `<3>`, `E0501 ...`, `[WARN]`, `ERROR: ...`, `2024-05-01 12:00:00 INFO ...` */
+export const textPrefixSeverityDetector: SeverityDetector = {
+  name: "text-prefix",
+  detect(entry) {
+    const message = entry.message;
+    const syslog = message.match(SYSLOG_PREFIX);
+    if (syslog) return fromNumber(parseInt(syslog[1], 10) % 8);
+    const glog = message.match(GLOG_PREFIX);
+    if (glog) return GLOG_LEVELS[glog[1]];
+    const bracketed = message.match(BRACKETED_LEVEL);
+    if (bracketed) return parseSeverity(bracketed[1]);
+    const upper = message.match(UPPERCASE_LEVEL);
+    return upper ? parseSeverity(upper[1]) : undefined;
+  },
+};
+
+/** A reassembled exception with no explicit level is an error */
+export const stackSeverityDetector: SeverityDetector = {
+  name: "stack",
+  detect(entry) {
+    return entry.stack ? "error" : undefined;
+  },
+};
+
+/** The severity Railway attached to the line (stderr lines arrive as "error") */
+export const railwaySeverityDetector: SeverityDetector = {
+  name: "railway",
+  detect(entry) {
+    return parseSeverity(entry.severity);
+  },
+};
+
+const detectors: SeverityDetector[] = [
+  jsonSeverityDetector,
+  logfmtSeverityDetector,
+  textPrefixSeverityDetector,
+  stackSeverityDetector,
+  railwaySeverityDetector,
+];
+
+/**
+ * Add a detector ahead of the built-in ones (for app-specific formats).
+ */
+export function registerSeverityDetector(detector: SeverityDetector): void {
+  detectors.unshift(detector);
+}
+
+/**
+ * Normalized severity of a log entry. Entries no detector recognizes are info.
+ */
+export function detectSeverity(entry: LogEntry): Severity {
+  for (const detector of detectors) {
+    const severity = detector.detect(entry);
+    if (severity) return severity;
+  }
+  return "info";
+}
+
+export function severityAtLeast(entry: LogEntry, minimum: Severity): boolean {
+  return SEVERITY_RANK[detectSeverity(entry)] >= SEVERITY_RANK[minimum];
+}
+
+/** Error or fatal */
+export function isErrorEntry(entry: LogEntry): boolean {
+  return severityAtLeast(entry, "error");
+}
+
+/** Exactly warn (errors are counted separately) */
+export function isWarningEntry(entry: LogEntry): boolean {
+  return detectSeverity(entry) === "warn";
+}
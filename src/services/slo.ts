@@ -0,0 +1,273 @@
+import type {
+  BurnRate,
+  BurnRateAlert,
+  HttpDurationSample,
+  HttpMetricsResponse,
+  HttpStatusGroup,
+  SloDefinition,
+  SloReport,
+  SloStatus,
+} from "../types/railway.js";
+import { fetchHttpMetrics } from "./railway-client.js";
+import { parseDurationMs, splitTimeRange } from "../utils/time.js";
+
+/**
+ * Service level objectives over Railway's HTTP metrics.
+ *
+ *   availability  share of requests that didn't return 5xx
+ *   latency       share of evaluation windows (default 5m) whose percentile
+ *                 stayed at or under `thresholdMs`
+ *
+ * The error budget is the share of bad events the objective allows over the
+ * SLO window. Burn rates say how fast the budget is being spent: 1 uses it up
+ * exactly by the end of the window. Alerts follow the multiwindow scheme from
+ * the Google SRE workbook: a long window proves the burn is significant, a
+ * short one that it is still happening.
+ *
+ * SLO windows span weeks, so metrics are fetched in chunks of at most
+ * POINTS_PER_CHUNK steps; one request for 30 days would come back with its
+ * samples coarsened and the short burn-rate windows would lose their data.
+ */
+
+// Step for availability SLOs and the default latency evaluation window
+const DEFAULT_STEP_SECONDS = 300;
+// Samples per status code in one request
+const POINTS_PER_CHUNK = 288;
+
+// Burn rates reported for every SLO (lookbacks longer than the window are dropped)
+const BURN_RATE_LOOKBACKS = ["5m", "30m", "1h", "2h", "6h", "1d", "3d"];
+
+// Fraction of the whole budget each alert allows to burn within its long window
+const ALERT_POLICIES: Array<{ severity: BurnRateAlert["severity"]; long: string; short: string; budget: number }> = [
+  { severity: "page", long: "1h", short: "5m", budget: 0.02 },
+  { severity: "page", long: "6h", short: "30m", budget: 0.05 },
+  { severity: "ticket", long: "1d", short: "2h", budget: 0.1 },
+  { severity: "ticket", long: "3d", short: "6h", budget: 0.1 },
+];
+
+// Less budget than this left counts as at risk
+const AT_RISK_REMAINING_PERCENT = 25;
+
+/** A good/bad event count at one timestamp (seconds) */
+interface SliEvent {
+  ts: number;
+  good: number;
+  bad: number;
+}
+
+export function slosForService(slos: SloDefinition[] = [], serviceId: string): SloDefinition[] {
+  return slos.filter((slo) => slo.serviceId === undefined || slo.serviceId === serviceId);
+}
+
+function stepSeconds(slo: SloDefinition): number {
+  return slo.type === "latency" && slo.evaluationWindow
+    ? parseDurationMs(slo.evaluationWindow) / 1000
+    : DEFAULT_STEP_SECONDS;
+}
+
+/**
+ * HTTP metrics for [startDate, endDate] fetched chunk by chunk at a fixed
+ * step and merged. Each sample is kept once, by timestamp, and only if it
+ * falls inside the range.
+ */
+export async function fetchHttpHistory(
+  environmentId: string,
+  serviceId: string,
+  startDate: string,
+  endDate: string,
+  step: number = DEFAULT_STEP_SECONDS,
+  onChunk?: (done: number, total: number) => void
+): Promise<HttpMetricsResponse> {
+  const stepMs = step * 1000;
+  // Chunk boundaries on step multiples, so chunks don't resample each other's edges
+  const alignedStart = new Date(Math.floor(new Date(startDate).getTime() / stepMs) * stepMs).toISOString();
+  const chunks = splitTimeRange(alignedStart, endDate, stepMs * POINTS_PER_CHUNK);
+  const fromSec = new Date(alignedStart).getTime() / 1000;
+  const toSec = new Date(endDate).getTime() / 1000;
+  const inRange = (ts: number) => ts >= fromSec && ts < toSec;
+
+  const durations = new Map<number, HttpDurationSample>();
+  const statuses = new Map<number, Map<number, number>>();
+
+  for (const [i, chunk] of chunks.entries()) {
+    const response = await fetchHttpMetrics(environmentId, serviceId, chunk.since, chunk.until, step);
+    for (const sample of response.httpDurationMetrics.samples) {
+      if (inRange(sample.ts)) durations.set(sample.ts, sample);
+    }
+    for (const group of response.httpMetricsGroupedByStatus) {
+      const samples = statuses.get(group.statusCode) ?? new Map<number, number>();
+      for (const s of group.samples) {
+        if (inRange(s.ts)) samples.set(s.ts, s.value);
+      }
+      statuses.set(group.statusCode, samples);
+    }
+    onChunk?.(i + 1, chunks.length);
+  }
+
+  const byTs = <T>(entries: Iterable<[number, T]>) => [...entries].sort((a, b) => a[0] - b[0]);
+  const groups: HttpStatusGroup[] = [...statuses.entries()].map(([statusCode, samples]) => ({
+    statusCode,
+    samples: byTs(samples.entries()).map(([ts, value]) => ({ ts, value })),
+  }));
+  return {
+    httpDurationMetrics: { samples: byTs(durations.entries()).map(([, s]) => s) },
+    httpMetricsGroupedByStatus: groups,
+  };
+}
+
+function availabilityEvents(http: HttpMetricsResponse): SliEvent[] {
+  const byTs = new Map<number, SliEvent>();
+  for (const group of http.httpMetricsGroupedByStatus) {
+    const isBad = group.statusCode >= 500 && group.statusCode < 600;
+    for (const s of group.samples) {
+      const event = byTs.get(s.ts) ?? { ts: s.ts, good: 0, bad: 0 };
+      if (isBad) event.bad += s.value;
+      else event.good += s.value;
+      byTs.set(s.ts, event);
+    }
+  }
+  return [...byTs.values()].sort((a, b) => a.ts - b.ts);
+}
+
+function latencyEvents(http: HttpMetricsResponse, slo: SloDefinition): SliEvent[] {
+  const percentile = slo.percentile!;
+  return http.httpDurationMetrics.samples.map((s) => {
+    const good = s[percentile] <= slo.thresholdMs! ? 1 : 0;
+    return { ts: s.ts, good, bad: 1 - good };
+  });
+}
+
+function countEvents(events: SliEvent[], fromMs: number): { good: number; bad: number } {
+  let good = 0;
+  let bad = 0;
+  for (const e of events) {
+    if (e.ts * 1000 < fromMs) continue;
+    good += e.good;
+    bad += e.bad;
+  }
+  return { good, bad };
+}
+
+/**
+ * Error budget, burn rates and alerts of one SLO, from HTTP metrics covering
+ * at least its window up to `endDate`.
+ */
+export function evaluateSlo(slo: SloDefinition, http: HttpMetricsResponse, endDate: string): SloReport {
+  const endMs = new Date(endDate).getTime();
+  const windowMs = parseDurationMs(slo.window);
+  const startMs = endMs - windowMs;
+  // A lookback shorter than one step still covers the latest sample
+  const stepMs = stepSeconds(slo) * 1000;
+  const allowedBadFraction = 1 - slo.objective / 100;
+
+  const events = (slo.type === "availability" ? availabilityEvents(http) : latencyEvents(http, slo)).filter(
+    (e) => e.ts * 1000 >= startMs && e.ts * 1000 < endMs
+  );
+  const { good, bad } = countEvents(events, startMs);
+  const total = good + bad;
+
+  const burnRate = (lookback: string): number | undefined => {
+    const counts = countEvents(events, endMs - Math.max(parseDurationMs(lookback), stepMs));
+    const n = counts.good + counts.bad;
+    return n > 0 ? counts.bad / n / allowedBadFraction : undefined;
+  };
+
+  const burnRates: BurnRate[] = BURN_RATE_LOOKBACKS.filter((l) => parseDurationMs(l) <= windowMs).map(
+    (lookback) => ({ lookback, rate: burnRate(lookback) })
+  );
+
+  const alerts: BurnRateAlert[] = ALERT_POLICIES.filter((p) => parseDurationMs(p.long) <= windowMs).map((p) => {
+    // Scaled to the SLO window; a burn under 1 never exhausts the budget, so it never alerts
+    const threshold = Math.max(1, +((p.budget * windowMs) / parseDurationMs(p.long)).toFixed(2));
+    const long = burnRate(p.long);
+    const short = burnRate(p.short);
+    return {
+      severity: p.severity,
+      long: p.long,
+      short: p.short,
+      threshold,
+      firing: long !== undefined && short !== undefined && long > threshold && short > threshold,
+    };
+  });
+
+  const allowed = total * allowedBadFraction;
+  const remainingPercent = total > 0 ? (1 - bad / allowed) * 100 : 100;
+
+  let status: SloStatus = "met";
+  if (total === 0) status = "no-data";
+  else if (remainingPercent < 0) status = "breached";
+  else if (remainingPercent < AT_RISK_REMAINING_PERCENT || alerts.some((a) => a.firing)) status = "at-risk";
+
+  return {
+    definition: slo,
+    window: { start: new Date(startMs).toISOString(), end: new Date(endMs).toISOString() },
+    total,
+    good,
+    sli: total > 0 ? (good / total) * 100 : undefined,
+    errorBudget: { allowed, consumed: bad, remainingPercent },
+    burnRates,
+    alerts,
+    status,
+  };
+}
+
+/**
+ * Evaluate SLOs for one service over their windows ending at `endDate`. SLOs
+ * sharing a step share one chunked fetch, as long as the longest of them.
+ */
+export async function collectSloReports(options: {
+  environmentId: string;
+  serviceId: string;
+  slos: SloDefinition[];
+  endDate: string;
+  onChunk?: (done: number, total: number) => void;
+}): Promise<SloReport[]> {
+  const { environmentId, serviceId, slos, endDate } = options;
+  const endMs = new Date(endDate).getTime();
+
+  const longestByStep = new Map<number, number>();
+  for (const slo of slos) {
+    const step = stepSeconds(slo);
+    longestByStep.set(step, Math.max(longestByStep.get(step) ?? 0, parseDurationMs(slo.window)));
+  }
+
+  const history = new Map<number, HttpMetricsResponse>();
+  for (const [step, windowMs] of longestByStep) {
+    const startDate = new Date(endMs - windowMs).toISOString();
+    history.set(step, await fetchHttpHistory(environmentId, serviceId, startDate, endDate, step, options.onChunk));
+  }
+
+  return slos.map((slo) => evaluateSlo(slo, history.get(stepSeconds(slo))!, endDate));
+}
+
+/**
+ * "availability 99.9% non-5xx over 30d" or "p95 ≤ 300 ms in 99% of 5m windows over 30d".
+ */
+export function describeSloObjective(slo: SloDefinition): string {
+  if (slo.type === "availability") return `${slo.objective}% non-5xx over ${slo.window}`;
+  return `${slo.percentile} ≤ ${slo.thresholdMs} ms in ${slo.objective}% of ${slo.evaluationWindow ?? "5m"} windows over ${slo.window}`;
+}
+
+export function formatBurnRate(rate: number | undefined): string {
+  return rate === undefined ? "n/a" : `${rate.toFixed(rate < 10 ? 2 : 1)}×`;
+}
+
+/**
+ * "checkout-availability AT-RISK: SLI 99.87% (target 99.9%), 30% of budget
+ * left, burn 1h 4.20× / 6h 2.10×; firing: page 6h/30m > 6".
+ */
+export function describeSloReport(r: SloReport): string {
+  const head = `${r.definition.name} ${r.status.toUpperCase()}`;
+  if (r.sli === undefined) return `${head}: no HTTP data in the last ${r.definition.window}`;
+  const burns = r.burnRates
+    .filter((b) => ["1h", "6h", "3d"].includes(b.lookback))
+    .map((b) => `${b.lookback} ${formatBurnRate(b.rate)}`)
+    .join(" / ");
+  const firing = r.alerts.filter((a) => a.firing).map((a) => `${a.severity} ${a.long}/${a.short} > ${a.threshold}`);
+  return (
+    `${head}: SLI ${r.sli.toFixed(3)}% (target ${r.definition.objective}%), ` +
+    `${r.errorBudget.remainingPercent.toFixed(0)}% of budget left` +
+    (burns ? `, burn ${burns}` : "") +
+    (firing.length > 0 ? `; firing: ${firing.join(", ")}` : "")
+  );
+}
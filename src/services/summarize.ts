@@ -0,0 +1,115 @@
+import type {
+  HttpDurationSample,
+  HttpLatencySummary,
+  HttpMetrics,
+  HttpMetricsResponse,
+  HttpStatusBucket,
+  MetricSummary,
+  MetricValue,
+} from "../types/railway.js";
+
+/**
+ * Summarize a list of metric values into a MetricSummary.
+ */
+export function summarizeMetric(
+  measurement: string,
+  values: MetricValue[]
+): MetricSummary {
+  if (values.length === 0) {
+    return {
+      measurement,
+      avg: 0,
+      min: 0,
+      max: 0,
+      latest: 0,
+      dataPoints: 0,
+      values: [],
+    };
+  }
+
+  const nums = values.map((v) => v.value);
+  const sum = nums.reduce((a, b) => a + b, 0);
+
+  return {
+    measurement,
+    avg: sum / nums.length,
+    min: Math.min(...nums),
+    max: Math.max(...nums),
+    latest: nums[nums.length - 1],
+    dataPoints: nums.length,
+    values,
+  };
+}
+
+/**
+ * Summarize a single latency percentile from duration samples.
+ */
+function summarizePercentile(
+  samples: HttpDurationSample[],
+  key: keyof Pick<HttpDurationSample, "p50" | "p90" | "p95" | "p99">
+): HttpLatencySummary {
+  if (samples.length === 0) {
+    return { avg: 0, min: 0, max: 0, latest: 0, dataPoints: 0 };
+  }
+
+  const values = samples.map((s) => s[key]);
+  const sum = values.reduce((a, b) => a + b, 0);
+
+  return {
+    avg: sum / values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    latest: values[values.length - 1],
+    dataPoints: values.length,
+  };
+}
+
+/**
+ * Summarize HTTP metrics into latency percentiles and status code buckets.
+ */
+export function summarizeHttpMetrics(response: HttpMetricsResponse): HttpMetrics {
+  const samples = response.httpDurationMetrics.samples;
+
+  // Aggregate status codes into buckets (2xx, 3xx, 4xx, 5xx)
+  const bucketMap = new Map<string, { count: number; codes: Record<number, number> }>();
+
+  let totalRequests = 0;
+  for (const group of response.httpMetricsGroupedByStatus) {
+    const code = group.statusCode;
+    const bucket = `${Math.floor(code / 100)}xx`;
+    const total = group.samples.reduce((sum, s) => sum + s.value, 0);
+    totalRequests += total;
+
+    if (!bucketMap.has(bucket)) {
+      bucketMap.set(bucket, { count: 0, codes: {} });
+    }
+    const entry = bucketMap.get(bucket)!;
+    entry.count += total;
+    entry.codes[code] = (entry.codes[code] || 0) + total;
+  }
+
+  const statusCodes: HttpStatusBucket[] = Array.from(bucketMap.entries())
+    .map(([bucket, data]) => ({ bucket, count: data.count, codes: data.codes }))
+    .sort((a, b) => a.bucket.localeCompare(b.bucket));
+
+  // Build flat status code samples for timeline correlation
+  const statusCodeSamples: Array<{ ts: number; statusCode: number; count: number }> = [];
+  for (const group of response.httpMetricsGroupedByStatus) {
+    for (const s of group.samples) {
+      statusCodeSamples.push({ ts: s.ts, statusCode: group.statusCode, count: s.value });
+    }
+  }
+
+  return {
+    latency: {
+      p50: summarizePercentile(samples, "p50"),
+      p90: summarizePercentile(samples, "p90"),
+      p95: summarizePercentile(samples, "p95"),
+      p99: summarizePercentile(samples, "p99"),
+    },
+    statusCodes,
+    totalRequests,
+    latencySamples: samples,
+    statusCodeSamples,
+  };
+}
@@ -0,0 +1,258 @@
+import type {
+  LogEntry,
+  RequestOutcome,
+  RequestTrace,
+  RequestTraceSummary,
+  TimelineWindow,
+} from "../types/railway.js";
+import { isErrorEntry } from "./severity.js";
+
+/**
+ * Request correlation: groups log entries by a correlation ID found in their
+ * attributes and rebuilds each request's timeline, duration and outcome.
+ */
+
+export const DEFAULT_CORRELATION_KEYS = [
+  "requestId",
+  "request_id",
+  "reqId",
+  "req_id",
+  "req.id",
+  "x-request-id",
+  "traceId",
+  "trace_id",
+  "correlationId",
+  "correlation_id",
+];
+
+// Traces kept per anomalous timeline window and in the report summary
+const TRACES_PER_WINDOW = 3;
+const TRACES_IN_SUMMARY = 10;
+
+// How deep to look for a key inside nested attributes (req.headers["x-request-id"])
+const MAX_ATTRIBUTE_DEPTH = 3;
+
+const STATUS_KEYS = ["status", "statusCode", "status_code", "http.status_code", "res.statusCode", "response.status"];
+const METHOD_KEYS = ["method", "http.method", "req.method", "request.method"];
+const PATH_KEYS = ["path", "url", "route", "http.route", "http.target", "req.url", "request.path"];
+const DURATION_KEYS = ["responseTime", "response_time", "durationMs", "duration_ms", "duration", "elapsed", "latency", "took"];
+
+/**
+ * Parse a comma-separated --correlation-key option.
+ */
+export function parseCorrelationKeys(option?: string): string[] {
+  if (!option) return DEFAULT_CORRELATION_KEYS;
+  const keys = option.split(",").map((k) => k.trim()).filter(Boolean);
+  return keys.length > 0 ? keys : DEFAULT_CORRELATION_KEYS;
+}
+
+/**
+ * Find `key` in attributes: exact, dotted path, or case-insensitively at any
+ * depth up to MAX_ATTRIBUTE_DEPTH.
+ */
+function findAttribute(attributes: Record<string, unknown> | undefined, key: string): unknown {
+  if (!attributes) return undefined;
+  if (attributes[key] !== undefined) return attributes[key];
+
+  if (key.includes(".")) {
+    let current: unknown = attributes;
+    for (const part of key.split(".")) {
+      if (current === null || typeof current !== "object") return undefined;
+      current = (current as Record<string, unknown>)[part];
+    }
+    if (current !== undefined) return current;
+  }
+
+  const wanted = key.toLowerCase();
+  const search = (obj: Record<string, unknown>, depth: number): unknown => {
+    for (const [k, v] of Object.entries(obj)) {
+      if (k.toLowerCase() === wanted && v !== null && typeof v !== "object") return v;
+    }
+    if (depth >= MAX_ATTRIBUTE_DEPTH) return undefined;
+    for (const v of Object.values(obj)) {
+      if (v && typeof v === "object" && !Array.isArray(v)) {
+        const found = search(v as Record<string, unknown>, depth + 1);
+        if (found !== undefined) return found;
+      }
+    }
+    return undefined;
+  };
+  return search(attributes, 1);
+}
+
+function firstAttribute(entry: LogEntry, keys: string[]): unknown {
+  for (const key of keys) {
+    const value = findAttribute(entry.attributes, key);
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+}
+
+/**
+ * The correlation ID of an entry and the key it was found under.
+ */
+export function correlationIdOf(
+  entry: LogEntry,
+  keys: string[] = DEFAULT_CORRELATION_KEYS
+): { id: string; key: string } | undefined {
+  for (const key of keys) {
+    const value = findAttribute(entry.attributes, key);
+    if (typeof value === "string" && value !== "") return { id: value, key };
+    if (typeof value === "number") return { id: String(value), key };
+  }
+  return undefined;
+}
+
+/**
+ * A logged duration in milliseconds: numbers are taken as ms, strings may
+ * carry an ms/s/µs unit ("1.5s", "230ms").
+ */
+function parseDurationMs(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value !== "string") return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|µs|us|ns)?$/);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  const unit = match[2] ?? "ms";
+  if (unit === "s") return amount * 1000;
+  if (unit === "µs" || unit === "us") return amount / 1000;
+  if (unit === "ns") return amount / 1e6;
+  return amount;
+}
+
+function outcomeOf(status: number | undefined, errorCount: number): RequestOutcome {
+  if (status !== undefined) {
+    if (status >= 500) return "error";
+    if (status >= 400) return errorCount > 0 ? "error" : "client-error";
+    return errorCount > 0 ? "error" : "ok";
+  }
+  return errorCount > 0 ? "error" : "unknown";
+}
+
+/**
+ * Rebuild one request from its entries (in any order).
+ */
+export function buildRequestTrace(id: string, key: string, entries: LogEntry[]): RequestTrace {
+  const sorted = [...entries].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const spanMs = new Date(last.timestamp).getTime() - new Date(first.timestamp).getTime();
+
+  let status: number | undefined;
+  let method: string | undefined;
+  let path: string | undefined;
+  let loggedMs = 0;
+  for (const e of sorted) {
+    const s = Number(firstAttribute(e, STATUS_KEYS));
+    if (Number.isInteger(s) && s >= 100 && s < 600) status = s;
+    method ??= firstAttribute(e, METHOD_KEYS) as string | undefined;
+    path ??= firstAttribute(e, PATH_KEYS) as string | undefined;
+    loggedMs = Math.max(loggedMs, parseDurationMs(firstAttribute(e, DURATION_KEYS)) ?? 0);
+  }
+
+  const errors = sorted.filter(isErrorEntry);
+  return {
+    id,
+    key,
+    start: first.timestamp,
+    end: last.timestamp,
+    durationMs: Math.max(spanMs, loggedMs),
+    outcome: outcomeOf(status, errors.length),
+    status,
+    method: typeof method === "string" ? method : undefined,
+    path: typeof path === "string" ? path : undefined,
+    entryCount: sorted.length,
+    errorCount: errors.length,
+    deploymentIds: [...new Set(sorted.map((e) => e.deploymentId).filter((d): d is string => !!d))],
+    summary: (errors[0] ?? last).message.split("\n")[0],
+  };
+}
+
+/**
+ * Group entries by correlation ID and rebuild each request.
+ */
+export function groupByCorrelation(
+  entries: LogEntry[],
+  keys: string[] = DEFAULT_CORRELATION_KEYS
+): RequestTrace[] {
+  const groups = new Map<string, { key: string; entries: LogEntry[] }>();
+  for (const entry of entries) {
+    const correlation = correlationIdOf(entry, keys);
+    if (!correlation) continue;
+    const group = groups.get(correlation.id);
+    if (group) group.entries.push(entry);
+    else groups.set(correlation.id, { key: correlation.key, entries: [entry] });
+  }
+  return [...groups.entries()].map(([id, g]) => buildRequestTrace(id, g.key, g.entries));
+}
+
+// IDs shorter than this (e.g. "42") are too likely to appear in unrelated
+// messages, so they are only matched under a correlation key
+const MIN_TEXT_MATCH_ID_LENGTH = 8;
+
+/**
+ * Entries belonging to one request: those carrying the ID under a
+ * correlation key, plus plain-text lines that mention it as a whole token.
+ */
+export function findTraceEntries(
+  entries: LogEntry[],
+  id: string,
+  keys: string[] = DEFAULT_CORRELATION_KEYS
+): LogEntry[] {
+  const mention =
+    id.length >= MIN_TEXT_MATCH_ID_LENGTH
+      ? new RegExp(`(?<![\\w-])${id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w-])`)
+      : undefined;
+  return entries.filter(
+    (e) => correlationIdOf(e, keys)?.id === id || (mention !== undefined && mention.test(e.message))
+  );
+}
+
+/** Failed requests first, then slowest */
+function rankTraces(traces: RequestTrace[]): RequestTrace[] {
+  return [...traces].sort((a, b) => {
+    const failedA = a.outcome === "error" ? 1 : 0;
+    const failedB = b.outcome === "error" ? 1 : 0;
+    return failedB - failedA || b.durationMs - a.durationMs;
+  });
+}
+
+/**
+ * Attach the failed and slowest requests that started in each anomalous
+ * window, so a latency spike can be traced to specific requests.
+ */
+export function attachTracesToTimeline(timeline: TimelineWindow[], traces: RequestTrace[]): void {
+  for (const window of timeline) {
+    if (!window.isAnomaly) continue;
+    const startMs = new Date(window.start).getTime();
+    const endMs = new Date(window.end).getTime();
+    const inWindow = traces.filter((t) => {
+      const ms = new Date(t.start).getTime();
+      return ms >= startMs && ms < endMs;
+    });
+    if (inWindow.length > 0) {
+      window.traces = rankTraces(inWindow).slice(0, TRACES_PER_WINDOW);
+    }
+  }
+}
+
+export function summarizeTraces(traces: RequestTrace[], keys: string[]): RequestTraceSummary {
+  const failures = traces.filter((t) => t.outcome === "error");
+  return {
+    correlationKeys: keys,
+    total: traces.length,
+    failed: failures.length,
+    slowest: [...traces].sort((a, b) => b.durationMs - a.durationMs).slice(0, TRACES_IN_SUMMARY),
+    failures: rankTraces(failures).slice(0, TRACES_IN_SUMMARY),
+  };
+}
+
+/**
+ * One-line description: "abc123 GET /api/orders 503 error, 2340 ms, 5 entries".
+ */
+export function describeTrace(trace: RequestTrace): string {
+  const request = [trace.method, trace.path, trace.status].filter((p) => p !== undefined).join(" ");
+  return `${trace.id}${request ? ` ${request}` : ""} — ${trace.outcome}, ${trace.durationMs.toFixed(0)} ms, ${trace.entryCount} entries`;
+}
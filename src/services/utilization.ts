@@ -0,0 +1,210 @@
+import type { MetricResult, MetricValue, UtilizationSummary } from "../types/railway.js";
+import { mean, percentile } from "../utils/stats.js";
+
+/** Percent of the limit from which a sample counts as "at the ceiling" */
+export const CEILING_PERCENT = 90;
+
+// Rounding steps for recommended limits
+const CPU_STEP_CORES = 0.25;
+const MEMORY_STEP_GB = 0.25;
+
+/**
+ * Express a usage series as a percent of its limit series, matching samples
+ * by timestamp. Returns undefined when no limit is reported.
+ */
+export function computeUtilization(
+  usage: MetricValue[],
+  limit: MetricValue[]
+): UtilizationSummary | undefined {
+  const limitByTs = new Map(limit.filter((v) => v.value > 0).map((v) => [v.ts, v.value]));
+  if (limitByTs.size === 0) return undefined;
+
+  const values: MetricValue[] = [];
+  for (const u of usage) {
+    const l = limitByTs.get(u.ts);
+    if (l !== undefined) values.push({ ts: u.ts, value: (u.value / l) * 100 });
+  }
+  return summarizeUtilization(values, limit.filter((v) => v.value > 0).at(-1)!.value);
+}
+
+function summarizeUtilization(values: MetricValue[], limit: number): UtilizationSummary | undefined {
+  if (values.length === 0) return undefined;
+
+  const percents = values.map((v) => v.value);
+  return {
+    values,
+    avgPercent: mean(percents),
+    p95Percent: percentile(percents, 95),
+    maxPercent: Math.max(...percents),
+    samplesNearCeiling: percents.filter((p) => p >= CEILING_PERCENT).length,
+    limit,
+  };
+}
+
+/**
+ * Service-level utilization from per-replica series: each replica's usage as
+ * a percent of its own limit, taking the busiest replica at each timestamp.
+ * Summing usage and limits instead would hide one replica near its OOM limit
+ * behind idle siblings, and double the limit while deployments overlap.
+ * `limit` is the largest per-replica limit at the latest sample.
+ */
+export function computeReplicaUtilization(
+  metrics: MetricResult[],
+  usageMeasurement: string,
+  limitMeasurement: string
+): UtilizationSummary | undefined {
+  const instanceKey = (m: MetricResult) => m.tags.deploymentInstanceId ?? m.tags.deploymentId ?? "unknown";
+  const limits = metrics.filter((m) => m.measurement === limitMeasurement);
+
+  const peak = new Map<number, number>();
+  for (const usage of metrics.filter((m) => m.measurement === usageMeasurement)) {
+    const limit = limits.filter((m) => instanceKey(m) === instanceKey(usage)).flatMap((m) => m.values);
+    for (const v of computeUtilization(usage.values, limit)?.values ?? []) {
+      peak.set(v.ts, Math.max(peak.get(v.ts) ?? 0, v.value));
+    }
+  }
+
+  const limitSamples = limits.flatMap((m) => m.values).filter((v) => v.value > 0);
+  if (limitSamples.length === 0) return undefined;
+  const latestTs = Math.max(...limitSamples.map((v) => v.ts));
+  const latestLimit = Math.max(...limitSamples.filter((v) => v.ts === latestTs).map((v) => v.value));
+
+  const values = Array.from(peak.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([ts, value]) => ({ ts, value }));
+  return summarizeUtilization(values, latestLimit);
+}
+
+export interface ResourceRecommendation {
+  resource: "cpu" | "memory";
+  /** Current per-replica limit (cores, or GB for memory); 0 if unknown */
+  currentLimit: number;
+  p95: number;
+  p99: number;
+  max: number;
+  recommendedLimit: number;
+  change: "increase" | "decrease" | "keep";
+  reason: string;
+}
+
+export interface CeilingHit {
+  instanceId: string;
+  region?: string;
+  samplesNearCeiling: number;
+  totalSamples: number;
+  maxPercent: number;
+}
+
+export interface RightsizeReport {
+  headroomPercent: number;
+  replicaCount: number;
+  cpu: ResourceRecommendation;
+  memory: ResourceRecommendation;
+  ceilingHits: CeilingHit[];
+}
+
+function roundUp(value: number, step: number): number {
+  return Math.max(step, Math.ceil(value / step) * step);
+}
+
+function recommend(
+  resource: "cpu" | "memory",
+  usage: number[],
+  currentLimit: number,
+  headroomPercent: number
+): ResourceRecommendation {
+  const p95 = percentile(usage, 95);
+  const p99 = percentile(usage, 99);
+  const max = usage.length > 0 ? Math.max(...usage) : 0;
+  const factor = 1 + headroomPercent / 100;
+
+  // CPU is throttled, not killed, so size for p95. Memory over the limit is an
+  // OOM, so size for p99 with headroom and never below the observed peak.
+  const target =
+    resource === "cpu" ? p95 * factor : Math.max(p99 * factor, max * 1.1);
+  const recommendedLimit = roundUp(target, resource === "cpu" ? CPU_STEP_CORES : MEMORY_STEP_GB);
+
+  const fmt = (v: number) =>
+    resource === "cpu" ? `${v.toFixed(2)} cores` : `${(v * 1024).toFixed(0)} MB`;
+  const basis = resource === "cpu" ? `p95 ${fmt(p95)}` : `p99 ${fmt(p99)}, peak ${fmt(max)}`;
+
+  let change: ResourceRecommendation["change"] = "keep";
+  let reason: string;
+  if (usage.length === 0) {
+    reason = "No usage samples in the period.";
+  } else if (currentLimit <= 0) {
+    reason = `No limit reported; ${basis} + ${headroomPercent}% headroom suggests ${fmt(recommendedLimit)}.`;
+  } else if (recommendedLimit > currentLimit * 1.05) {
+    change = "increase";
+    reason = `${basis} leaves less than ${headroomPercent}% headroom under the ${fmt(currentLimit)} limit.`;
+  } else if (recommendedLimit < currentLimit * 0.8) {
+    change = "decrease";
+    reason = `${basis} + ${headroomPercent}% headroom fits in ${fmt(recommendedLimit)}; ${fmt(currentLimit)} is over-provisioned.`;
+  } else {
+    reason = `${basis} fits the ${fmt(currentLimit)} limit with headroom.`;
+  }
+
+  return {
+    resource,
+    currentLimit,
+    p95,
+    p99,
+    max,
+    recommendedLimit: change === "keep" && currentLimit > 0 ? currentLimit : recommendedLimit,
+    change,
+    reason,
+  };
+}
+
+function latestLimit(series: MetricResult[]): number {
+  const latest = series
+    .flatMap((m) => m.values)
+    .filter((v) => v.value > 0)
+    .sort((a, b) => a.ts - b.ts)
+    .at(-1);
+  return latest?.value ?? 0;
+}
+
+/**
+ * Recommend per-replica CPU and memory limits from per-replica usage
+ * percentiles plus headroom, and find replicas that keep hitting their
+ * memory ceiling. Expects metrics grouped by DEPLOYMENT_INSTANCE_ID.
+ */
+export function buildRightsizeReport(
+  metrics: MetricResult[],
+  headroomPercent: number
+): RightsizeReport {
+  const series = (measurement: string) => metrics.filter((m) => m.measurement === measurement);
+
+  const cpuUsage = series("CPU_USAGE").flatMap((m) => m.values.map((v) => v.value));
+  const memoryUsage = series("MEMORY_USAGE_GB").flatMap((m) => m.values.map((v) => v.value));
+
+  const ceilingHits: CeilingHit[] = [];
+  for (const usage of series("MEMORY_USAGE_GB")) {
+    const instanceId = usage.tags.deploymentInstanceId ?? usage.tags.deploymentId ?? "unknown";
+    const limit = series("MEMORY_LIMIT_GB").find(
+      (m) =>
+        (m.tags.deploymentInstanceId ?? m.tags.deploymentId ?? "unknown") === instanceId
+    );
+    const utilization = limit ? computeUtilization(usage.values, limit.values) : undefined;
+    if (!utilization || utilization.samplesNearCeiling === 0) continue;
+
+    ceilingHits.push({
+      instanceId,
+      region: usage.tags.region,
+      samplesNearCeiling: utilization.samplesNearCeiling,
+      totalSamples: utilization.values.length,
+      maxPercent: utilization.maxPercent,
+    });
+  }
+
+  return {
+    headroomPercent,
+    replicaCount: new Set(
+      series("CPU_USAGE").map((m) => m.tags.deploymentInstanceId ?? m.tags.deploymentId)
+    ).size,
+    cpu: recommend("cpu", cpuUsage, latestLimit(series("CPU_LIMIT")), headroomPercent),
+    memory: recommend("memory", memoryUsage, latestLimit(series("MEMORY_LIMIT_GB")), headroomPercent),
+    ceilingHits: ceilingHits.sort((a, b) => b.samplesNearCeiling - a.samplesNearCeiling),
+  };
+}
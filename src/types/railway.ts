@@ -75,6 +75,10 @@ export interface DeploymentNode {
   createdAt: string;
   updatedAt: string;
   staticUrl?: string;
+  /** When this deployment started serving traffic (unset if it never served) */
+  activeFrom?: string;
+  /** When it was superseded by the next serving deployment; null if still active */
+  activeTo?: string | null;
 }
 
 export interface DeploymentsResponse {
@@ -82,6 +86,10 @@ export interface DeploymentsResponse {
     edges: Array<{
       node: DeploymentNode;
     }>;
+    pageInfo?: {
+      hasNextPage: boolean;
+      endCursor?: string | null;
+    };
   };
 }
 
@@ -90,6 +98,58 @@ export interface LogEntry {
   message: string;
   severity?: string;
   attributes?: Record<string, unknown>;
+  /** Deployment the entry was fetched from or attributed to */
+  deploymentId?: string;
+  /** Which log stream the entry came from */
+  source?: LogSource;
+  /** Parsed stack trace when the entry is a reassembled multi-line exception */
+  stack?: StackTrace;
+  /** The line had no time of its own; the timestamp was taken from a neighbouring line */
+  timestampInferred?: boolean;
+}
+
+export type LogSource = "deploy" | "build";
+
+/**
+ * One fetch of one deployment's deploy or build logs.
+ */
+export interface LogBatch {
+  deploymentId?: string;
+  source: LogSource;
+  entries: LogEntry[];
+  /** Lines returned by the API, before multi-line reassembly */
+  lineCount: number;
+  /** Line limit the fetch used; unset when the source has none */
+  limit?: number;
+}
+
+/**
+ * How completely a deployment's logs were fetched. A truncated fetch hit its
+ * line limit, so entries older than `oldest` may be missing.
+ */
+export interface LogCoverage {
+  deploymentId?: string;
+  source: LogSource;
+  lineCount: number;
+  limit?: number;
+  truncated: boolean;
+  /** Entries kept after deduplication */
+  entries: number;
+  /** Entries dropped as duplicates of one already merged */
+  duplicates: number;
+  oldest?: string;
+  newest?: string;
+}
+
+export interface StackTrace {
+  runtime: "node" | "python" | "jvm" | "go" | "unknown";
+  /** Exception class, e.g. TypeError, java.lang.NullPointerException, panic */
+  errorType?: string;
+  errorMessage?: string;
+  /** Frames as printed: innermost call first for Node/JVM/Go, last for Python */
+  frames: string[];
+  /** Chained causes ("Caused by: ..." / "During handling of the above exception") */
+  causes?: string[];
 }
 
 export interface ServiceHealthReport {
@@ -105,13 +165,47 @@ export interface ServiceHealthReport {
   metrics: {
     cpu: MetricSummary;
     memory: MetricSummary;
+    /** Per-replica limits (the largest replica's at each sample), not the service total */
+    cpuLimit: MetricSummary;
+    memoryLimit: MetricSummary;
     networkRx: MetricSummary;
     networkTx: MetricSummary;
     http?: HttpMetrics;
+    /** Usage as a percent of the configured limit, when Railway reports limits */
+    utilization?: {
+      cpu?: UtilizationSummary;
+      memory?: UtilizationSummary;
+    };
   };
   deployments: DeploymentNode[];
   logs: LogEntry[];
   timeline?: TimelineWindow[];
+  /** Per-replica and per-region breakdown (metrics grouped by instance and region) */
+  replicas?: ReplicaBreakdown;
+  /** Log messages clustered into templates, most frequent first */
+  patterns?: LogPattern[];
+  /** Requests rebuilt from log entries sharing a correlation ID */
+  requests?: RequestTraceSummary;
+  /** Build diagnostics for deployments that failed during the period */
+  buildFailures?: BuildReport[];
+  /** Per-deployment log fetch completeness (deploy and build logs) */
+  logCoverage?: LogCoverage[];
+  /** What was redacted from log messages and attributes (absent with --no-redact) */
+  redactions?: RedactionSummary;
+  /** Error budgets and burn rates of the service's SLOs */
+  slos?: SloReport[];
+  /** Deterministic rule-based score (see health-score.ts) */
+  healthScore?: HealthScore;
+  /** Before/after verdict for each deployment that went live during the period */
+  deployDiffs?: DeployDiff[];
+  /** Deltas against a baseline period (analyze --compare) */
+  comparison?: PeriodComparison;
+  /** Detector used per timeline signal, e.g. "mad > 3.5; p99: threshold > 800" */
+  anomalyDetection?: string;
+  /** Log metric definitions behind `TimelineWindow.custom` */
+  logMetrics?: LogMetricDefinition[];
+  /** Non-fatal collection problems (e.g. HTTP metrics unavailable), with cause */
+  warnings?: string[];
 }
 
 export interface MetricSummary {
@@ -124,6 +218,54 @@ export interface MetricSummary {
   values: MetricValue[];
 }
 
+export interface UtilizationSummary {
+  /** Usage as a percent of the limit at each sample (the busiest replica for service-level summaries) */
+  values: MetricValue[];
+  avgPercent: number;
+  p95Percent: number;
+  maxPercent: number;
+  /** Samples at or above the ceiling threshold (90% of the limit) */
+  samplesNearCeiling: number;
+  /** Most recent per-replica limit (cores for CPU, GB for memory) */
+  limit: number;
+}
+
+// --- Replicas and regions ---
+
+export interface ReplicaSummary {
+  instanceId: string;
+  deploymentId?: string;
+  region?: string;
+  cpu: MetricSummary;
+  memory: MetricSummary;
+  memoryUtilization?: UtilizationSummary;
+}
+
+export interface RegionSummary {
+  region: string;
+  replicaCount: number;
+  cpu: MetricSummary;
+  memory: MetricSummary;
+}
+
+export interface HotReplica {
+  instanceId: string;
+  deploymentId?: string;
+  region?: string;
+  signal: "cpu" | "memory";
+  /** The replica's average for the signal (cores, or GB for memory) */
+  value: number;
+  /** Median average of the other replicas in the same deployment */
+  peerMedian: number;
+  ratio: number;
+}
+
+export interface ReplicaBreakdown {
+  instances: ReplicaSummary[];
+  regions: RegionSummary[];
+  hot: HotReplica[];
+}
+
 // --- HTTP Metrics (from Railway internal API) ---
 
 export interface HttpDurationSample {
@@ -171,6 +313,43 @@ export interface HttpMetrics {
   totalRequests: number;
   latencySamples: HttpDurationSample[];
   statusCodeSamples: Array<{ ts: number; statusCode: number; count: number }>;
+  /** Per-route breakdown, present when routes were requested with --path */
+  routes?: HttpRouteMetrics[];
+}
+
+export interface HttpRouteFilter {
+  method?: string;
+  path?: string;
+  statusCode?: number;
+}
+
+export interface HttpRouteMetrics {
+  /** Display label, e.g. "GET /api/users" */
+  route: string;
+  method?: string;
+  path?: string;
+  latency: HttpMetrics["latency"];
+  statusCodes: HttpStatusBucket[];
+  totalRequests: number;
+  errors5xx: number;
+  /** 5xx as a fraction of all requests (0–1) */
+  errorRate: number;
+}
+
+export interface LogPattern {
+  /** Message template with variable parts masked (<NUM>, <UUID>, <IP>, <HEX>, <*>) */
+  template: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  /** First message that matched the pattern, unmasked */
+  sample: string;
+  /** Entry count per normalized severity (see severity.ts) */
+  severities: Record<string, number>;
+  /** Entry count per correlation timeline window, aligned with `timeline` */
+  windowCounts?: number[];
+  /** Stack trace of the sample, when the sample is an exception */
+  stack?: StackTrace;
 }
 
 export interface TimelineWindow {
@@ -183,4 +362,377 @@ export interface TimelineWindow {
   errors5xx: number;
   errorLogs: number;
   isAnomaly: boolean;
+  /** Signals that flagged this window, with the detector's score (anomalous windows only) */
+  anomalies?: AnomalyTrigger[];
+  /** Failed and slowest request traces that started in this window (anomalous windows only) */
+  traces?: RequestTrace[];
+  /**
+   * User-defined log metrics by name. Counts are always present; gauges only
+   * when a matching entry carried the attribute in this window.
+   */
+  custom?: Record<string, number>;
+}
+
+export type AnomalyDetectorName = "stddev" | "mad" | "ewma" | "cusum" | "threshold";
+
+export interface AnomalyTrigger {
+  /** Timeline field (cpu, memoryMb, p99, errors5xx, errorLogs) or log metric name */
+  signal: string;
+  detector: AnomalyDetectorName;
+  value: number;
+  /** z-score for stddev/mad/ewma, cumulative sum for cusum, the value itself for threshold */
+  score: number;
+  /** The window is flagged when the score exceeds this */
+  threshold: number;
+}
+
+// --- Period-over-period comparison ---
+
+export type SignificanceTest = "mann-whitney" | "two-proportion" | "poisson-rate";
+
+export interface SignalDelta {
+  /** cpu, memoryMb, p50, p95, p99, requestsPerHour, errorRate5xx or errorLogsPerHour */
+  signal: string;
+  unit: string;
+  baseline: number;
+  current: number;
+  /** current − baseline */
+  change: number;
+  /** Relative change; absent when the baseline is 0 */
+  changePercent?: number;
+  test?: SignificanceTest;
+  /** Two-sided p-value; absent when there was too little data to test */
+  pValue?: number;
+  /** p < 0.05 */
+  significant: boolean;
+}
+
+export interface PatternDelta {
+  template: string;
+  /** Error/fatal entries matching the template, per hour */
+  baselinePerHour: number;
+  currentPerHour: number;
+  change: "new" | "gone" | "increased" | "decreased" | "unchanged";
+  pValue?: number;
+  significant: boolean;
+}
+
+export type TimelineSignals = Pick<TimelineWindow, "cpu" | "memoryMb" | "p99" | "requests" | "errors5xx" | "errorLogs">;
+
+export interface AlignedTimelineRow {
+  /** Offset of the window from the start of its period */
+  offsetMs: number;
+  current: TimelineSignals;
+  /** Baseline window covering the same offset */
+  baseline?: TimelineSignals;
+}
+
+export interface PeriodComparison {
+  /** The --compare value, e.g. "previous" or "1w" */
+  spec: string;
+  baseline: {
+    start: string;
+    end: string;
+  };
+  deltas: SignalDelta[];
+  /** Error log patterns whose rate changed, most significant first */
+  patterns: PatternDelta[];
+  timeline?: AlignedTimelineRow[];
+  /** Collection problems for the baseline period */
+  warnings?: string[];
+}
+
+// --- Deployment regression detection ---
+
+export type DeployVerdict = "improved" | "neutral" | "regressed";
+
+export interface DeployDiff {
+  deploymentId: string;
+  /** Deployment that was serving before the cutover */
+  previousDeploymentId?: string;
+  /** When the deployment went live (its `activeFrom`) */
+  cutover: string;
+  /** Compared ranges: up to the window length either side, never crossing another cutover */
+  before: { start: string; end: string };
+  after: { start: string; end: string };
+  /** p50, p99, errorRate5xx, errorLogsPerHour, cpu and memoryMb, after vs before */
+  deltas: SignalDelta[];
+  /** Log patterns seen after the cutover but not before it, errors first */
+  newPatterns: LogPattern[];
+  verdict: DeployVerdict;
+  /** Why the verdict was reached, one finding per line */
+  evidence: string[];
+}
+
+// --- Health score ---
+
+export type HealthRuleName =
+  | "p99-latency"
+  | "error-rate-5xx"
+  | "memory-of-limit"
+  | "failed-deployments"
+  | "error-log-rate";
+
+/** Config overrides for one rule; every rule is "higher is worse" */
+export interface HealthRuleConfig {
+  enabled?: boolean;
+  weight?: number;
+  /** At or below this the rule scores 100 */
+  good?: number;
+  /** At or above this the rule scores 0; linear in between */
+  bad?: number;
+}
+
+export interface HealthRuleResult {
+  rule: HealthRuleName;
+  weight: number;
+  /** Measured value, in the rule's unit */
+  value?: number;
+  unit: string;
+  good: number;
+  bad: number;
+  /** 0–100; absent when the rule was skipped for lack of data */
+  score?: number;
+  reasons: string[];
+}
+
+export type HealthStatus = "healthy" | "degraded" | "unhealthy";
+
+export interface HealthScore {
+  /** Weighted average of the scored rules, 0–100 */
+  score: number;
+  status: HealthStatus;
+  rules: HealthRuleResult[];
+}
+
+// --- SLOs ---
+
+export type SloType = "availability" | "latency";
+
+export interface SloDefinition {
+  name: string;
+  type: SloType;
+  /** Target percentage of good events, e.g. 99.9 */
+  objective: number;
+  /** Rolling compliance window, e.g. "30d" */
+  window: string;
+  /** Only for this service; applies to every service when absent */
+  serviceId?: string;
+  /** Latency SLOs: the percentile that must stay under `thresholdMs` */
+  percentile?: "p50" | "p90" | "p95" | "p99";
+  thresholdMs?: number;
+  /** Latency SLOs: length of each evaluated window (default 5m) */
+  evaluationWindow?: string;
+  description?: string;
+}
+
+export interface BurnRate {
+  /** Lookback, e.g. "1h" */
+  lookback: string;
+  /** Budget consumption speed: 1 spends exactly the budget over the SLO window. Absent without data. */
+  rate?: number;
+}
+
+export interface BurnRateAlert {
+  severity: "page" | "ticket";
+  long: string;
+  short: string;
+  /** Both windows must burn faster than this */
+  threshold: number;
+  firing: boolean;
+}
+
+export type SloStatus = "met" | "at-risk" | "breached" | "no-data";
+
+export interface SloReport {
+  definition: SloDefinition;
+  window: {
+    start: string;
+    end: string;
+  };
+  /** Events counted: requests for availability, evaluation windows for latency */
+  total: number;
+  good: number;
+  /** Percentage of good events; absent without data */
+  sli?: number;
+  errorBudget: {
+    /** Bad events the objective allows over the window */
+    allowed: number;
+    consumed: number;
+    /** Percent of the budget left; negative once the SLO is breached */
+    remainingPercent: number;
+  };
+  burnRates: BurnRate[];
+  alerts: BurnRateAlert[];
+  status: SloStatus;
+}
+
+// --- Checks ---
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface CheckRuleDefinition {
+  name: string;
+  /** Condition that must hold, e.g. "http.latency.p99.max < 1500" or "5xx ratio < 1%" */
+  expr: string;
+  /** Stricter condition; breaking it while `expr` holds gives a warning */
+  warn?: string;
+  /** What breaking `expr` gives (default fail) */
+  severity?: "warn" | "fail";
+  /** Result when the report has no value for the rule (default fail) */
+  missing?: CheckStatus;
+  description?: string;
+}
+
+export interface CheckResult {
+  name: string;
+  expr: string;
+  status: CheckStatus;
+  /** The measured value, absent when the report had none */
+  actual?: number | string | boolean;
+  message: string;
+}
+
+// --- Build diagnostics ---
+
+export type BuildStageKind =
+  | "detect"
+  | "setup"
+  | "install"
+  | "copy"
+  | "build"
+  | "export"
+  | "healthcheck"
+  | "other";
+
+/**
+ * One stage of a build: a BuildKit step, a classic `Step N/M`, or a Railway
+ * phase (builder detection, healthcheck).
+ */
+export interface BuildStage {
+  name: string;
+  kind: BuildStageKind;
+  start: string;
+  end: string;
+  durationMs: number;
+  lines: number;
+  /** Reused from the build cache */
+  cached?: boolean;
+}
+
+export type BuildFailureCategory =
+  | "dependency-install"
+  | "compile"
+  | "timeout"
+  | "out-of-memory"
+  | "healthcheck"
+  | "other";
+
+export interface BuildFailure {
+  category: BuildFailureCategory;
+  /** Stage the first fatal line belongs to */
+  stage?: string;
+  message: string;
+  timestamp: string;
+  /** Lines around the error, the error line included */
+  context: string[];
+}
+
+export interface BuildStageComparison {
+  name: string;
+  kind: BuildStageKind;
+  durationMs: number;
+  /** Same stage in the last successful build, when it ran there */
+  baselineMs?: number;
+}
+
+export interface BuildReport {
+  deploymentId: string;
+  status?: string;
+  builder: "nixpacks" | "railpack" | "dockerfile" | "unknown";
+  stages: BuildStage[];
+  totalDurationMs: number;
+  failure?: BuildFailure;
+  /** Last successful build before this one */
+  baseline?: {
+    deploymentId: string;
+    totalDurationMs: number;
+  };
+  comparison?: BuildStageComparison[];
+}
+
+// --- Redaction ---
+
+/**
+ * A user-supplied redaction rule (config file `redaction.rules`). When the
+ * pattern has a `(?<secret>...)` group only that part is replaced.
+ */
+export interface RedactionRuleDefinition {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface RedactionSummary {
+  /** Values replaced, across messages and attributes */
+  total: number;
+  /** Per rule: replacements and distinct original values */
+  byRule: Record<string, { count: number; distinct: number }>;
+}
+
+// --- Log-derived metrics ---
+
+export type LogMetricAggregation = "count" | "sum" | "avg" | "min" | "max" | "p95";
+
+/**
+ * A metric derived from logs (config file `logMetrics`), computed per
+ * correlation timeline window.
+ *
+ *   { "name": "payment_declined", "type": "count", "query": "\"payment declined\"" }
+ *   { "name": "db_ms", "type": "avg", "attribute": "db_ms" }
+ */
+export interface LogMetricDefinition {
+  name: string;
+  type: LogMetricAggregation;
+  /** Log query selecting the entries to aggregate (all entries when omitted) */
+  query?: string;
+  /** Numeric attribute to aggregate; required for everything except count */
+  attribute?: string;
+  /** Human-readable description shown in reports */
+  description?: string;
+}
+
+// --- Request tracing ---
+
+export type RequestOutcome = "ok" | "client-error" | "error" | "unknown";
+
+/**
+ * Log entries sharing a correlation ID (requestId, traceId, ...) rebuilt into
+ * one request.
+ */
+export interface RequestTrace {
+  id: string;
+  /** Attribute the ID was found under */
+  key: string;
+  start: string;
+  end: string;
+  /** Span of the entries, or the logged response time when that is longer */
+  durationMs: number;
+  outcome: RequestOutcome;
+  status?: number;
+  method?: string;
+  path?: string;
+  entryCount: number;
+  errorCount: number;
+  deploymentIds: string[];
+  /** First error message, or the last message when the request didn't fail */
+  summary: string;
+}
+
+export interface RequestTraceSummary {
+  correlationKeys: string[];
+  total: number;
+  failed: number;
+  slowest: RequestTrace[];
+  failures: RequestTrace[];
 }
@@ -0,0 +1,301 @@
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import type {
+  HealthRuleConfig,
+  HealthRuleName,
+  LogMetricAggregation,
+  LogMetricDefinition,
+  RedactionRuleDefinition,
+  SloDefinition,
+  SloType,
+} from "../types/railway.js";
+import { TIMELINE_SIGNALS } from "../services/anomaly.js";
+import { HEALTH_RULE_NAMES, healthRuleDefaults } from "../services/health-score.js";
+import { parseDurationMs } from "./time.js";
+
+/**
+ * Project configuration file (JSON). Loaded once from --config, or from
+ * railway-metrics.config.json in the working directory when present.
+ */
+
+export const DEFAULT_CONFIG_FILE = "railway-metrics.config.json";
+
+export interface RedactionConfig {
+  /** Extra rules applied after the built-in detectors */
+  rules?: RedactionRuleDefinition[];
+  /** Built-in detectors to turn off, by name */
+  disable?: string[];
+}
+
+export interface HealthScoreConfig {
+  /** Per-rule overrides of the built-in weights and thresholds */
+  rules?: Partial<Record<HealthRuleName, HealthRuleConfig>>;
+}
+
+export interface AppConfig {
+  logMetrics?: LogMetricDefinition[];
+  redaction?: RedactionConfig;
+  healthScore?: HealthScoreConfig;
+  slos?: SloDefinition[];
+}
+
+const AGGREGATIONS: LogMetricAggregation[] = ["count", "sum", "avg", "min", "max", "p95"];
+
+const SLO_TYPES: SloType[] = ["availability", "latency"];
+const SLO_PERCENTILES = ["p50", "p90", "p95", "p99"];
+
+let activeConfig: AppConfig = {};
+let activeConfigPath: string | undefined;
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid config ${path}: ${message}`);
+}
+
+function validateLogMetrics(path: string, value: unknown): LogMetricDefinition[] {
+  if (!Array.isArray(value)) fail(path, "logMetrics must be an array");
+  const names = new Set<string>();
+
+  return value.map((raw, i) => {
+    const where = `logMetrics[${i}]`;
+    if (!raw || typeof raw !== "object") fail(path, `${where} must be an object`);
+    const metric = raw as Record<string, unknown>;
+
+    if (typeof metric.name !== "string" || !/^[A-Za-z_][\w.-]*$/.test(metric.name)) {
+      fail(path, `${where}.name must be an identifier (letters, digits, _ . -)`);
+    }
+    // Detection and --detector read built-in signals by name, so a clash would hide the log metric
+    if ((TIMELINE_SIGNALS as readonly string[]).includes(metric.name)) {
+      fail(
+        path,
+        `${where}.name "${metric.name}" is a built-in timeline signal (${TIMELINE_SIGNALS.join(", ")}); choose another name`
+      );
+    }
+    if (names.has(metric.name)) fail(path, `duplicate log metric "${metric.name}"`);
+    names.add(metric.name);
+
+    const type = metric.type ?? "count";
+    if (!AGGREGATIONS.includes(type as LogMetricAggregation)) {
+      fail(path, `${where}.type must be one of ${AGGREGATIONS.join(", ")}`);
+    }
+    if (metric.query !== undefined && typeof metric.query !== "string") {
+      fail(path, `${where}.query must be a string`);
+    }
+    if (metric.attribute !== undefined && typeof metric.attribute !== "string") {
+      fail(path, `${where}.attribute must be a string`);
+    }
+    if (type !== "count" && !metric.attribute) {
+      fail(path, `${where} (${type}) needs an attribute to aggregate`);
+    }
+
+    return {
+      name: metric.name,
+      type: type as LogMetricAggregation,
+      query: metric.query as string | undefined,
+      attribute: metric.attribute as string | undefined,
+      description: typeof metric.description === "string" ? metric.description : undefined,
+    };
+  });
+}
+
+function validateRedaction(path: string, value: unknown): RedactionConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) fail(path, "redaction must be an object");
+  const fields = value as Record<string, unknown>;
+  const config: RedactionConfig = {};
+
+  if (fields.rules !== undefined) {
+    if (!Array.isArray(fields.rules)) fail(path, "redaction.rules must be an array");
+    config.rules = fields.rules.map((raw, i) => {
+      const where = `redaction.rules[${i}]`;
+      if (!raw || typeof raw !== "object") fail(path, `${where} must be an object`);
+      const rule = raw as Record<string, unknown>;
+      if (typeof rule.name !== "string" || !/^[A-Za-z_][\w.-]*$/.test(rule.name)) {
+        fail(path, `${where}.name must be an identifier (letters, digits, _ . -)`);
+      }
+      if (typeof rule.pattern !== "string" || rule.pattern === "") {
+        fail(path, `${where}.pattern must be a non-empty regular expression`);
+      }
+      if (rule.flags !== undefined && typeof rule.flags !== "string") {
+        fail(path, `${where}.flags must be a string`);
+      }
+      try {
+        new RegExp(rule.pattern, rule.flags as string | undefined);
+      } catch (err) {
+        fail(path, `${where}.pattern: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return { name: rule.name, pattern: rule.pattern, flags: rule.flags as string | undefined };
+    });
+  }
+
+  if (fields.disable !== undefined) {
+    if (!Array.isArray(fields.disable) || fields.disable.some((d) => typeof d !== "string")) {
+      fail(path, "redaction.disable must be an array of detector names");
+    }
+    config.disable = fields.disable as string[];
+  }
+
+  return config;
+}
+
+function validateHealthScore(path: string, value: unknown): HealthScoreConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) fail(path, "healthScore must be an object");
+  const fields = value as Record<string, unknown>;
+  const config: HealthScoreConfig = {};
+
+  if (fields.rules !== undefined) {
+    if (!fields.rules || typeof fields.rules !== "object" || Array.isArray(fields.rules)) {
+      fail(path, "healthScore.rules must be an object keyed by rule name");
+    }
+    config.rules = {};
+    for (const [name, raw] of Object.entries(fields.rules)) {
+      const where = `healthScore.rules.${name}`;
+      if (!HEALTH_RULE_NAMES.includes(name as HealthRuleName)) {
+        fail(path, `unknown health rule "${name}" (use ${HEALTH_RULE_NAMES.join(", ")})`);
+      }
+      if (!raw || typeof raw !== "object" || Array.isArray(raw)) fail(path, `${where} must be an object`);
+      const rule = raw as Record<string, unknown>;
+      if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") {
+        fail(path, `${where}.enabled must be true or false`);
+      }
+      for (const key of ["weight", "good", "bad"] as const) {
+        if (rule[key] !== undefined && (typeof rule[key] !== "number" || !Number.isFinite(rule[key]) || rule[key] < 0)) {
+          fail(path, `${where}.${key} must be a non-negative number`);
+        }
+      }
+      // A single override is checked against the rule's default for the other threshold
+      const defaults = healthRuleDefaults(name as HealthRuleName);
+      const good = typeof rule.good === "number" ? rule.good : undefined;
+      const bad = typeof rule.bad === "number" ? rule.bad : undefined;
+      if (good !== undefined && bad !== undefined && good >= bad) {
+        fail(path, `${where}.good must be below ${where}.bad`);
+      }
+      if (good !== undefined && bad === undefined && good >= defaults.bad) {
+        fail(path, `${where}.good (${good}) must be below the default bad of ${defaults.bad}; set bad as well`);
+      }
+      if (bad !== undefined && good === undefined && bad <= defaults.good) {
+        fail(path, `${where}.bad (${bad}) must be above the default good of ${defaults.good}; set good as well`);
+      }
+      config.rules[name as HealthRuleName] = {
+        enabled: rule.enabled as boolean | undefined,
+        weight: rule.weight as number | undefined,
+        good: rule.good as number | undefined,
+        bad: rule.bad as number | undefined,
+      };
+    }
+  }
+
+  return config;
+}
+
+function validateDuration(path: string, where: string, value: unknown): string {
+  if (typeof value !== "string") fail(path, `${where} must be a duration such as 5m or 30d`);
+  try {
+    parseDurationMs(value);
+  } catch (err) {
+    fail(path, `${where}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return value;
+}
+
+function validateSlos(path: string, value: unknown): SloDefinition[] {
+  if (!Array.isArray(value)) fail(path, "slos must be an array");
+  const names = new Set<string>();
+
+  return value.map((raw, i) => {
+    const where = `slos[${i}]`;
+    if (!raw || typeof raw !== "object") fail(path, `${where} must be an object`);
+    const slo = raw as Record<string, unknown>;
+
+    if (typeof slo.name !== "string" || !/^[A-Za-z_][\w.-]*$/.test(slo.name)) {
+      fail(path, `${where}.name must be an identifier (letters, digits, _ . -)`);
+    }
+    const key = `${slo.serviceId ?? "*"}/${slo.name}`;
+    if (names.has(key)) fail(path, `duplicate SLO "${slo.name}"`);
+    names.add(key);
+
+    if (!SLO_TYPES.includes(slo.type as SloType)) fail(path, `${where}.type must be one of ${SLO_TYPES.join(", ")}`);
+    if (typeof slo.objective !== "number" || !(slo.objective > 0 && slo.objective < 100)) {
+      fail(path, `${where}.objective must be a percentage between 0 and 100, e.g. 99.9`);
+    }
+    const window = validateDuration(path, `${where}.window`, slo.window);
+    if (slo.serviceId !== undefined && typeof slo.serviceId !== "string") {
+      fail(path, `${where}.serviceId must be a string`);
+    }
+
+    const definition: SloDefinition = {
+      name: slo.name,
+      type: slo.type as SloType,
+      objective: slo.objective,
+      window,
+      serviceId: slo.serviceId as string | undefined,
+      description: typeof slo.description === "string" ? slo.description : undefined,
+    };
+
+    if (definition.type === "latency") {
+      if (!SLO_PERCENTILES.includes(slo.percentile as string)) {
+        fail(path, `${where}.percentile must be one of ${SLO_PERCENTILES.join(", ")}`);
+      }
+      if (typeof slo.thresholdMs !== "number" || !(slo.thresholdMs > 0)) {
+        fail(path, `${where}.thresholdMs must be a positive number of milliseconds`);
+      }
+      definition.percentile = slo.percentile as SloDefinition["percentile"];
+      definition.thresholdMs = slo.thresholdMs;
+      if (slo.evaluationWindow !== undefined) {
+        const evaluationWindow = validateDuration(path, `${where}.evaluationWindow`, slo.evaluationWindow);
+        if (parseDurationMs(evaluationWindow) % 60_000 !== 0) {
+          fail(path, `${where}.evaluationWindow must be a whole number of minutes`);
+        }
+        definition.evaluationWindow = evaluationWindow;
+      }
+    }
+    return definition;
+  });
+}
+
+/**
+ * Parse and validate a config file's contents.
+ */
+export function parseConfig(path: string, text: string): AppConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    fail(path, err instanceof Error ? err.message : String(err));
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) fail(path, "expected an object");
+  const fields = raw as Record<string, unknown>;
+
+  const config: AppConfig = {};
+  if (fields.logMetrics !== undefined) config.logMetrics = validateLogMetrics(path, fields.logMetrics);
+  if (fields.redaction !== undefined) config.redaction = validateRedaction(path, fields.redaction);
+  if (fields.healthScore !== undefined) config.healthScore = validateHealthScore(path, fields.healthScore);
+  if (fields.slos !== undefined) config.slos = validateSlos(path, fields.slos);
+  return config;
+}
+
+/**
+ * Load the config file given with --config, or the default file if it
+ * exists. An explicit path that doesn't exist is an error.
+ */
+export function loadConfig(path?: string): AppConfig {
+  const file = resolve(path ?? DEFAULT_CONFIG_FILE);
+  if (!existsSync(file)) {
+    if (path) throw new Error(`Config file not found: ${file}`);
+    activeConfig = {};
+    activeConfigPath = undefined;
+    return activeConfig;
+  }
+  activeConfig = parseConfig(file, readFileSync(file, "utf-8"));
+  activeConfigPath = file;
+  return activeConfig;
+}
+
+/**
+ * The loaded configuration (empty when no config file is in use).
+ */
+export function getConfig(): AppConfig {
+  return activeConfig;
+}
+
+export function getConfigPath(): string | undefined {
+  return activeConfigPath;
+}
@@ -0,0 +1,81 @@
+/**
+ * Small numeric helpers shared by the summarizers and detectors.
+ */
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function stddev(values: number[]): number {
+  if (values.length === 0) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((s, v) => s + (v - m) ** 2, 0) / values.length);
+}
+
+/**
+ * Percentile (0–100) using linear interpolation between closest ranks.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Standard normal CDF (Abramowitz–Stegun 7.1.26, error < 1.5e-7).
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Two-sided p-value of a z statistic */
+export function twoSidedP(z: number): number {
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Two-sided Mann–Whitney U test (normal approximation with tie correction).
+ * Returns undefined when either sample has fewer than 3 values or every
+ * value is tied.
+ */
+export function mannWhitneyP(a: number[], b: number[]): number | undefined {
+  if (a.length < 3 || b.length < 3) return undefined;
+  const all = [...a.map((v) => ({ v, a: true })), ...b.map((v) => ({ v, a: false }))].sort((x, y) => x.v - y.v);
+  const n = all.length;
+
+  // Average ranks over ties, accumulating the tie correction term
+  let rankSumA = 0;
+  let ties = 0;
+  for (let i = 0; i < n; ) {
+    let j = i;
+    while (j + 1 < n && all[j + 1].v === all[i].v) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) if (all[k].a) rankSumA += rank;
+    const t = j - i + 1;
+    ties += t ** 3 - t;
+    i = j + 1;
+  }
+
+  const n1 = a.length;
+  const n2 = b.length;
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - ties / (n * (n - 1)));
+  if (variance <= 0) return undefined;
+  const diff = u - (n1 * n2) / 2;
+  // Continuity correction
+  const z = (Math.abs(diff) - 0.5) / Math.sqrt(variance);
+  return twoSidedP(Math.max(0, z));
+}
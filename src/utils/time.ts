@@ -5,12 +5,29 @@ import duration from "dayjs/plugin/duration.js";
 dayjs.extend(relativeTime);
 dayjs.extend(duration);
 
+let pinnedNow: string | null = null;
+
+/**
+ * Pin the reference "now" used for relative periods (used by --record/--replay
+ * so a replayed run resolves the same time range as the recorded one).
+ */
+export function pinNow(iso: string): void {
+  pinnedNow = iso;
+}
+
+/**
+ * The reference "now" for period calculations.
+ */
+export function now(): dayjs.Dayjs {
+  return pinnedNow ? dayjs(pinnedNow) : dayjs();
+}
+
 /**
  * Parse a period string like "1h", "30m", "7d", "2w" into a start/end date range.
  * Also accepts ISO 8601 date strings directly.
  */
 export function parsePeriod(period: string): { start: string; end: string } {
-  const end = dayjs().toISOString();
+  const end = now().toISOString();
 
   // Check for relative time formats (e.g., 1h, 30m, 7d, 2w)
   const match = period.match(/^(\d+)([smhdw])$/);
@@ -26,14 +43,14 @@ export function parsePeriod(period: string): { start: string; end: string } {
       w: "week",
     };
 
-    const start = dayjs().subtract(amount, unitMap[unit]).toISOString();
+    const start = now().subtract(amount, unitMap[unit]).toISOString();
     return { start, end };
   }
 
   // Plain number without a unit defaults to hours (e.g., "244" → "244h")
   if (/^\d+$/.test(period)) {
     const amount = parseInt(period, 10);
-    const start = dayjs().subtract(amount, "hour").toISOString();
+    const start = now().subtract(amount, "hour").toISOString();
     return { start, end };
   }
 
@@ -74,3 +91,95 @@ export function formatDuration(startDate: string, endDate: string): string {
 
   return parts.join(" ");
 }
+
+/**
+ * Parse a duration like "30m", "1h" or "1d" into milliseconds.
+ */
+export function parseDurationMs(value: string): number {
+  const match = value.match(/^(\d+)([smhdw])$/);
+  if (!match || parseInt(match[1], 10) === 0) {
+    throw new Error(`Invalid duration: "${value}". Use a number with a unit, e.g. 30m, 1h, 1d.`);
+  }
+  const unitMs: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+  };
+  return parseInt(match[1], 10) * unitMs[match[2]];
+}
+
+/**
+ * Split [start, end] into consecutive chunks of at most `chunkMs`.
+ */
+export function splitTimeRange(
+  start: string,
+  end: string,
+  chunkMs: number
+): Array<{ since: string; until: string }> {
+  const startMs = new Date(start).getTime();
+  const endMs = new Date(end).getTime();
+  const chunks: Array<{ since: string; until: string }> = [];
+  for (let from = startMs; from < endMs; from += chunkMs) {
+    chunks.push({
+      since: new Date(from).toISOString(),
+      until: new Date(Math.min(from + chunkMs, endMs)).toISOString(),
+    });
+  }
+  return chunks;
+}
+
+/**
+ * Resolve a `--compare` baseline for the analysis range: "previous" (the
+ * equally long range just before it), a shift such as "1d" or "1w" (the same
+ * range that long ago), or an explicit ISO 8601 range "<start>/<end>".
+ * The baseline may not overlap the analysis range, so a shift must be at
+ * least as long as the period.
+ */
+export function parseComparePeriod(
+  spec: string,
+  current: { start: string; end: string }
+): { start: string; end: string } {
+  const start = dayjs(current.start);
+  const end = dayjs(current.end);
+
+  if (spec === "previous") {
+    const lengthMs = end.diff(start, "millisecond");
+    return { start: start.subtract(lengthMs, "millisecond").toISOString(), end: start.toISOString() };
+  }
+
+  if (/^\d+[smhdw]$/.test(spec)) {
+    const shiftMs = parseDurationMs(spec);
+    const lengthMs = end.diff(start, "millisecond");
+    if (shiftMs < lengthMs) {
+      throw new Error(
+        `Invalid --compare shift: "${spec}" is shorter than the ${formatDuration(current.start, current.end)} period, so the baseline would overlap it. Use a shift at least as long as the period, or "previous".`
+      );
+    }
+    return {
+      start: start.subtract(shiftMs, "millisecond").toISOString(),
+      end: end.subtract(shiftMs, "millisecond").toISOString(),
+    };
+  }
+
+  const [from, to, ...rest] = spec.split("/");
+  if (to !== undefined && rest.length === 0) {
+    const rangeStart = dayjs(from);
+    const rangeEnd = dayjs(to);
+    if (!rangeStart.isValid() || !rangeEnd.isValid() || rangeStart.year() < 2000 || rangeEnd.year() < 2000) {
+      throw new Error(`Invalid --compare range: "${spec}". Use ISO 8601 dates, e.g. 2026-10-01T00:00Z/2026-10-02T00:00Z.`);
+    }
+    if (!rangeEnd.isAfter(rangeStart)) {
+      throw new Error(`Invalid --compare range: "${spec}" ends before it starts.`);
+    }
+    if (rangeStart.isBefore(end) && rangeEnd.isAfter(start)) {
+      throw new Error(`Invalid --compare range: "${spec}" overlaps the analysis period (${current.start} to ${current.end}).`);
+    }
+    return { start: rangeStart.toISOString(), end: rangeEnd.toISOString() };
+  }
+
+  throw new Error(
+    `Invalid --compare value: "${spec}". Use previous, a shift such as 1d or 1w, or an ISO 8601 range <start>/<end>.`
+  );
+}